@@ -1,26 +1,149 @@
 import React, { useEffect, useRef, useState } from "react";
 import { Login } from "./components/Login";
 import { ChatList } from "./components/ChatList";
-import { ChatWindow } from "./components/ChatWindow";
-import { RoomType, ChatRoom, Message, UserProfile } from "./types";
-import { db, auth } from "./firebaseConfig";
+import { ChatWindow, ReportTarget } from "./components/ChatWindow";
+import { ModerationPanel } from "./components/ModerationPanel";
+import { Loader2 } from "lucide-react";
+import {
+  RoomType,
+  ChatRoom,
+  Message,
+  UserProfile,
+  MatchPreference,
+  MatchQueueDoc,
+  OnlineUserDoc,
+  UserPrefsDoc,
+  ReportDoc,
+  ReportReason,
+  SuspensionDoc,
+  GroupMessageData,
+  HeldMessageDoc,
+  RoomSettingsDoc,
+} from "./types";
+import { db, auth, storage } from "./firebaseConfig";
+import {
+  joinQueue,
+  leaveQueue,
+  cancelSearch,
+  widenQueueEntry,
+  startQueueHeartbeat,
+  widerPreference,
+  MATCH_WIDEN_AFTER_MS,
+  findPartner,
+  watchQueueEntry,
+  watchSession,
+  watchSessionMessages,
+  sendSessionMessage,
+  SESSION_LIMIT_KEY,
+  endSession,
+} from "./services/matchmaking";
+import { startPresence, watchOnlineUsers } from "./services/presence";
+import {
+  MESSAGES,
+  getRoomId,
+  upsertMessage,
+  mergeMessages,
+  loadOlderMessages,
+  loadHistoryFrom,
+  findLiveStart,
+  watchRoomMessages,
+  HISTORY_PAGE,
+  unsendMessage,
+  markRead,
+  receiptsFull,
+  setReaction,
+  reactionsFull,
+} from "./services/messages";
+import {
+  translate,
+  queueAutoTranslation,
+  defaultLanguageCode,
+} from "./services/translation";
+import {
+  SearchQuery,
+  SearchResult,
+  tokenize,
+  createLocalSearch,
+  createFirestoreSearch,
+} from "./services/search";
+import { createTypingReporter, watchTyping, sessionTypingKey } from "./services/typing";
+import {
+  isNotificationOptIn,
+  setNotificationOptIn,
+  showMessageNotification,
+  setUnreadBadge,
+} from "./services/notifications";
+import {
+  EMPTY_PREFS,
+  watchUserPrefs,
+  hideMessage,
+  setRoomAutoTranslate,
+  isRoomMuted,
+  muteRoom,
+  unmuteRoom,
+  loadLocalPrefs,
+  saveLocalPrefs,
+  clearLocalPrefs,
+  isBlocked,
+  blockUser,
+  unblockUser,
+} from "./services/userPrefs";
+import { createFirebaseStorage, createLocalStorage } from "./services/storage";
+import {
+  UsernameTakenError,
+  checkUsername,
+  claimProfile,
+  createUserDirectory,
+  loadProfile,
+  releaseProfile,
+  loadLocalProfile,
+  saveLocalProfile,
+  clearLocalProfile,
+} from "./services/users";
+import { ATTACHMENT_FALLBACK, uploadImage, uploadVoice, removeAttachment } from "./services/attachments";
+import { VoiceRecording } from "./services/recorder";
+import { MentionCandidate, resolveMentions, mentionsUser } from "./services/mentions";
+import {
+  checkModerator,
+  reportContextIds,
+  loadReportContext,
+  submitReport,
+  watchOpenReports,
+  dismissReport,
+  deleteReportedMessage,
+  suspendUser,
+  watchSuspension,
+  heldMessageRef,
+  watchHeldMessages,
+  approveHeldMessage,
+  discardHeldMessage,
+} from "./services/moderation";
+import { ModerationVerdict, moderateText, screenText } from "./services/autoModeration";
+import {
+  EMPTY_LIMITS,
+  SendLimits,
+  checkSend,
+  loadSendLimits,
+  nextSendAt,
+  recordSend,
+  sendCounted,
+  setSlowMode,
+  watchRoomSettings,
+  watchSendLimits,
+} from "./services/sendLimits";
 
 import {
   signInAnonymously,
+  signOut,
   onAuthStateChanged,
 } from "firebase/auth";
 import {
-  addDoc,
   collection,
   deleteDoc,
   doc,
-  onSnapshot,
-  orderBy,
-  query,
   setDoc,
   updateDoc,
-  where,
-  limit,
+  Firestore,
 } from "firebase/firestore";
 
 /* ---------------- SAFE CONSTANTS ---------------- */
@@ -32,6 +155,10 @@ const ROOM_KEYS: RoomType[] = [
   RoomType.ONE_ON_ONE,
 ];
 
+// Demo mode keeps attachments in memory; otherwise they need a storage bucket
+const localAttachments = createLocalStorage();
+const remoteAttachments = storage ? createFirebaseStorage(storage) : null;
+
 const EMPTY_ROOMS: Record<RoomType, ChatRoom> = {
   [RoomType.WORLD]: {
     id: RoomType.WORLD,
@@ -39,6 +166,7 @@ const EMPTY_ROOMS: Record<RoomType, ChatRoom> = {
     description: "Chat with everyone",
     messages: [],
     unreadCount: 0,
+    mentionCount: 0,
     muted: false,
   },
   [RoomType.COUNTRY]: {
@@ -47,6 +175,7 @@ const EMPTY_ROOMS: Record<RoomType, ChatRoom> = {
     description: "Chat with your country",
     messages: [],
     unreadCount: 0,
+    mentionCount: 0,
     muted: false,
   },
   [RoomType.STATE]: {
@@ -55,6 +184,7 @@ const EMPTY_ROOMS: Record<RoomType, ChatRoom> = {
     description: "Chat with your state",
     messages: [],
     unreadCount: 0,
+    mentionCount: 0,
     muted: false,
   },
   [RoomType.ONE_ON_ONE]: {
@@ -63,6 +193,7 @@ const EMPTY_ROOMS: Record<RoomType, ChatRoom> = {
     description: "Random chat",
     messages: [],
     unreadCount: 0,
+    mentionCount: 0,
     muted: false,
     isSearching: false,
     connectedPartner: null,
@@ -78,19 +209,124 @@ const App: React.FC = () => {
   const [isDemoMode, setIsDemoMode] = useState(false);
   const [activeRoom, setActiveRoom] = useState<RoomType>(RoomType.WORLD);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(true);
-  const [blockedUsers, setBlockedUsers] = useState<string[]>([]);
   const [rooms, setRooms] = useState<Record<RoomType, ChatRoom>>(EMPTY_ROOMS);
+  const [matchPreference, setMatchPreference] = useState<MatchPreference>(
+    MatchPreference.ANYWHERE
+  );
+  const [queueEntry, setQueueEntry] = useState<MatchQueueDoc | null>(null);
+  const [onlineUsers, setOnlineUsers] = useState<OnlineUserDoc[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({}); // By uid
+  const [prefs, setPrefs] = useState<UserPrefsDoc>(EMPTY_PREFS);
+
+  const [notificationsEnabled, setNotificationsEnabled] = useState(isNotificationOptIn);
+  const [isModerator, setIsModerator] = useState(false);
+  const [profileSaved, setProfileSaved] = useState(false);
+  const [restoring, setRestoring] = useState(true); // Looking for a saved profile
+  const [suspension, setSuspension] = useState<SuspensionDoc | null>(null);
+  const [showModeration, setShowModeration] = useState(false);
+  const [reports, setReports] = useState<ReportDoc[]>([]);
+  const [heldMessages, setHeldMessages] = useState<HeldMessageDoc[]>([]);
+  const [sendLimits, setSendLimits] = useState<SendLimits>(EMPTY_LIMITS);
+  const [roomSettings, setRoomSettings] = useState<Record<string, RoomSettingsDoc>>({});
 
   const activeRoomRef = useRef(activeRoom);
   const userRef = useRef(user);
+  const prefsRef = useRef(prefs);
 
   useEffect(() => {
     activeRoomRef.current = activeRoom;
     userRef.current = user;
-  }, [activeRoom, user]);
+    prefsRef.current = prefs;
+  }, [activeRoom, user, prefs]);
+
+  /* ---------------- UNREAD & MUTE ---------------- */
+
+  // A message counts as unread if it's new, from someone else, and its room
+  // isn't the one on screen. Muted rooms still count; the UI hides the dot.
+  const isUnreadArrival = (room: ChatRoom, msg: Message, type: RoomType) =>
+    !msg.isMe &&
+    !msg.system &&
+    !isBlocked(prefsRef.current, msg.senderUid) &&
+    type !== activeRoomRef.current &&
+    !room.messages.some((m) => m.id === msg.id);
+
+  useEffect(() => {
+    setRooms((prev) =>
+      prev[activeRoom].unreadCount === 0 && prev[activeRoom].mentionCount === 0
+        ? prev
+        : { ...prev, [activeRoom]: { ...prev[activeRoom], unreadCount: 0, mentionCount: 0 } }
+    );
+  }, [activeRoom]);
+
+  // Re-render when the earliest timed mute runs out
+  const [muteClock, setMuteClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    const upcoming = Object.values(prefs.mutedRooms).filter(
+      (until): until is number => typeof until === "number" && until > muteClock
+    );
+    if (upcoming.length === 0) return;
+    const timer = setTimeout(
+      () => setMuteClock(Date.now()),
+      Math.min(...upcoming) - Date.now() + 100
+    );
+    return () => clearTimeout(timer);
+  }, [prefs.mutedRooms, muteClock]);
+
+  const displayRooms = ROOM_KEYS.reduce(
+    (acc, type) => ({
+      ...acc,
+      [type]: { ...rooms[type], muted: isRoomMuted(prefs, type, Date.now()) },
+    }),
+    {} as Record<RoomType, ChatRoom>
+  );
+
+  /* ---------------- NOTIFICATIONS ---------------- */
+
+  const unreadTotal = ROOM_KEYS.reduce(
+    (sum, type) => sum + (displayRooms[type].muted ? 0 : displayRooms[type].unreadCount),
+    0
+  );
+
+  useEffect(() => {
+    setUnreadBadge(unreadTotal);
+  }, [unreadTotal]);
+
+  const handleToggleNotifications = async () => {
+    setNotificationsEnabled(await setNotificationOptIn(!notificationsEnabled));
+  };
+
+  // Called for each newly arrived message; only pings while the tab is in the
+  // background. Muted rooms stay quiet unless the message @mentions us.
+  const notifyArrival = (type: RoomType, msg: Message, mentionsMe: boolean) => {
+    const me = userRef.current;
+    if (!me || msg.isMe || msg.system || msg.unsent) return;
+    if (isBlocked(prefsRef.current, msg.senderUid)) return;
+    if (document.visibilityState === "visible") return;
+    if (isRoomMuted(prefsRef.current, type, Date.now()) && !mentionsMe) return;
+
+    const roomName =
+      type === RoomType.COUNTRY
+        ? me.country
+        : type === RoomType.STATE
+          ? `${me.state}, ${me.country}`
+          : EMPTY_ROOMS[type].name;
+
+    showMessageNotification({
+      title: mentionsMe ? `${msg.sender} mentioned you in ${roomName}` : `${msg.sender} in ${roomName}`,
+      body: msg.text,
+      tag: msg.id,
+      onClick: () => {
+        setActiveRoom(type);
+        setIsMobileMenuOpen(false);
+      },
+    });
+  };
 
   /* ---------------- AUTH ---------------- */
 
+  // Anonymous sessions survive reloads, so a returning uid skips Login if
+  // users/{uid} already holds its profile
   useEffect(() => {
     if (!auth) {
       setIsDemoMode(true);
@@ -103,6 +339,21 @@ const App: React.FC = () => {
         if (u) {
           setFirebaseUid(u.uid);
           setIsDemoMode(false);
+          if (!db) {
+            setRestoring(false);
+            return;
+          }
+          checkModerator(db, u).then(setIsModerator).catch(() => setIsModerator(false));
+          try {
+            const saved = await loadProfile(db, u.uid);
+            if (saved) {
+              applyProfile(saved);
+              setProfileSaved(true);
+            }
+          } catch (err) {
+            console.error("Profile restore error", err);
+          }
+          setRestoring(false);
         } else {
           try {
             await signInAnonymously(auth);
@@ -117,169 +368,1117 @@ const App: React.FC = () => {
     return () => unsub();
   }, []);
 
-  /* ---------------- MESSAGE LISTENER ---------------- */
+  useEffect(() => {
+    if (!isDemoMode) return;
+    const saved = loadLocalProfile();
+    if (saved && !userRef.current) applyProfile(saved);
+    setRestoring(false);
+  }, [isDemoMode]);
+
+  /* ---------------- USER PREFS ---------------- */
+
+  useEffect(() => {
+    if (isDemoMode) {
+      setPrefs(loadLocalPrefs());
+      return;
+    }
+    if (!firebaseUid || !db) return;
+    return watchUserPrefs(db, firebaseUid, setPrefs);
+  }, [firebaseUid, isDemoMode]);
+
+  // Optimistic local update; demo mode persists to localStorage instead
+  const updatePrefs = (
+    next: UserPrefsDoc,
+    write: (db: Firestore, uid: string) => Promise<void>,
+    label: string
+  ) => {
+    setPrefs(next);
+    if (isDemoMode) {
+      saveLocalPrefs(next);
+      return;
+    }
+    if (!db || !firebaseUid) return;
+    write(db, firebaseUid).catch((err) => console.error(`${label} error`, err));
+  };
+
+  /* ---------------- PRESENCE ---------------- */
 
   useEffect(() => {
     if (!user || !firebaseUid || !db || isDemoMode) return;
 
-    const getRoomId = (type: RoomType) => {
-      switch (type) {
-        case RoomType.WORLD:
-          return "WORLD_CHAT";
-        case RoomType.COUNTRY:
-          return `COUNTRY_${user.country}`;
-        case RoomType.STATE:
-          return `STATE_${user.state}_${user.country}`;
-        default:
-          return null;
-      }
+    const stopPresence = startPresence(db, {
+      userId: firebaseUid,
+      username: user.username,
+      country: user.country,
+      state: user.state,
+    });
+    const unsubOnline = watchOnlineUsers(db, (users) =>
+      setOnlineUsers(users.filter((u) => u.userId !== firebaseUid))
+    );
+
+    return () => {
+      stopPresence();
+      unsubOnline();
+      setOnlineUsers([]);
     };
+  }, [user, firebaseUid, isDemoMode]);
+
+  /* ---------------- USER DIRECTORY ---------------- */
+
+  const directory = useRef<ReturnType<typeof createUserDirectory> | null>(null);
 
+  useEffect(() => {
+    if (!firebaseUid || !db || isDemoMode) return;
+    directory.current = createUserDirectory(db, setUserNames);
+    return () => {
+      directory.current = null;
+    };
+  }, [firebaseUid, isDemoMode]);
+
+  useEffect(() => {
+    directory.current?.resolve(
+      ROOM_KEYS.flatMap((t) => rooms[t].messages.map((m) => m.senderUid).filter((uid): uid is string => !!uid))
+    );
+  }, [rooms]);
+
+  // Who sent a message comes from their uid; the name stored on the message
+  // is only a fallback until users/{uid} has loaded
+  const senderName = (msg: Message) => (msg.senderUid && userNames[msg.senderUid]) || msg.sender;
+
+  /* ---------------- MESSAGE LISTENER ---------------- */
+
+  // Listeners over paged-in history, torn down with the live ones
+  const historyListeners = useRef<(() => void)[]>([]);
+
+  useEffect(() => {
+    if (!user || !firebaseUid || !db || isDemoMode || !profileSaved) return;
+
+    let cancelled = false;
     const unsubscribers: (() => void)[] = [];
 
-    [RoomType.WORLD, RoomType.COUNTRY, RoomType.STATE].forEach((type) => {
-      const roomId = getRoomId(type);
+    [RoomType.WORLD, RoomType.COUNTRY, RoomType.STATE].forEach(async (type) => {
+      const roomId = getRoomId(type, user);
       if (!roomId) return;
 
-      const q = query(
-        collection(db, "messages"),
-        where("roomId", "==", roomId),
-        orderBy("timestamp", "asc"),
-        limit(100)
-      );
+      // The tail starts at the newest LIVE_WINDOW messages and, unlike a
+      // limit() query, keeps following them as newer ones arrive
+      let start: Awaited<ReturnType<typeof findLiveStart>>;
+      try {
+        start = await findLiveStart(db, roomId);
+      } catch (err) {
+        console.error("Message listener error", err);
+        return;
+      }
+      if (cancelled) return;
+      setRooms((prev) => ({ ...prev, [type]: { ...prev[type], hasMoreHistory: start.hasMoreHistory } }));
 
-      const unsub = onSnapshot(q, (snap) => {
-        snap.docChanges().forEach((c) => {
-          if (c.type === "added") {
-            const d = c.doc.data();
-            const msg: Message = {
-              id: c.doc.id,
-              sender: d.sender,
-              text: d.text,
-              timestamp: d.timestamp,
-              isMe: d.senderUid === firebaseUid,
-              readBy: d.readBy || [],
-              roomId,
-            };
+      const unsub = watchRoomMessages(db, roomId, firebaseUid, { from: start.from }, (changes, initial) => {
+        // The first snapshot is history, not new arrivals
+        const countUnread = !initial;
 
-            setRooms((prev) => {
-              if (prev[type].messages.some((m) => m.id === msg.id)) return prev;
-              return {
-                ...prev,
-                [type]: {
-                  ...prev[type],
-                  messages: [...prev[type].messages, msg],
-                },
-              };
-            });
-          }
+        changes.forEach(({ msg, isNew }) => {
+          const mentioned = mentionsUser(msg, firebaseUid, user.username);
+          if (countUnread && isNew) notifyArrival(type, msg, mentioned);
+
+          setRooms((prev) => {
+            const unread = countUnread && isUnreadArrival(prev[type], msg, type);
+            return {
+              ...prev,
+              [type]: {
+                ...prev[type],
+                messages: upsertMessage(prev[type].messages, msg),
+                unreadCount: prev[type].unreadCount + (unread ? 1 : 0),
+                mentionCount: prev[type].mentionCount + (unread && mentioned ? 1 : 0),
+              },
+            };
+          });
         });
       });
 
       unsubscribers.push(unsub);
     });
 
-    return () => unsubscribers.forEach((u) => u());
-  }, [user, firebaseUid, isDemoMode]);
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach((u) => u());
+      historyListeners.current.forEach((u) => u());
+      historyListeners.current = [];
+    };
+  }, [user, firebaseUid, isDemoMode, profileSaved]);
+
+  /* ---------------- ONE ON ONE ---------------- */
+
+  const oneOnOne = rooms[RoomType.ONE_ON_ONE];
+  const sessionId = oneOnOne.sessionId;
+
+  const updateOneOnOne = (patch: Partial<ChatRoom>) =>
+    setRooms((prev) => ({
+      ...prev,
+      [RoomType.ONE_ON_ONE]: { ...prev[RoomType.ONE_ON_ONE], ...patch },
+    }));
+
+  const startMatchmaking = async () => {
+    if (!user || !firebaseUid || !db || isDemoMode || suspension) return;
+
+    updateOneOnOne({
+      isSearching: true,
+      searchWidened: false,
+      connectedPartner: null,
+      sessionId: null,
+      messages: [],
+    });
+
+    try {
+      const entry = await joinQueue(db, firebaseUid, user, matchPreference);
+      setQueueEntry(entry);
+      await findPartner(db, entry, Object.keys(prefs.blocked));
+    } catch (err) {
+      console.error("Matchmaking error", err);
+      setQueueEntry(null);
+      updateOneOnOne({ isSearching: false });
+    }
+  };
+
+  // Keep our entry fresh so searchers don't take us for a closed tab
+  useEffect(() => {
+    if (!oneOnOne.isSearching || !firebaseUid || !db) return;
+    return startQueueHeartbeat(db, firebaseUid);
+  }, [oneOnOne.isSearching, firebaseUid]);
+
+  // Wait for our queue entry to be paired (by us or by the other client)
+  useEffect(() => {
+    if (!oneOnOne.isSearching || !firebaseUid || !db) return;
+
+    return watchQueueEntry(db, firebaseUid, (id) => {
+      leaveQueue(db, firebaseUid).catch(() => {});
+      setQueueEntry(null);
+      updateOneOnOne({ isSearching: false, searchWidened: false, sessionId: id });
+    });
+  }, [oneOnOne.isSearching, firebaseUid]);
+
+  // Nobody within our preference yet: widen one step and look again
+  useEffect(() => {
+    if (!oneOnOne.isSearching || !queueEntry || !db) return;
+    const wider = widerPreference(queueEntry.preference);
+    if (!wider) return;
+
+    const timer = setTimeout(async () => {
+      const widened = { ...queueEntry, preference: wider };
+      setQueueEntry(widened);
+      updateOneOnOne({ searchWidened: true });
+      try {
+        await widenQueueEntry(db, widened.userId, wider);
+        await findPartner(db, widened, Object.keys(prefsRef.current.blocked));
+      } catch (err) {
+        console.error("Matchmaking error", err);
+      }
+    }, MATCH_WIDEN_AFTER_MS);
+
+    return () => clearTimeout(timer);
+  }, [oneOnOne.isSearching, queueEntry]);
+
+  // Follow the active session: partner profile, messages, and disconnects
+  useEffect(() => {
+    if (!sessionId || !firebaseUid || !db) return;
+
+    const unsubSession = watchSession(db, sessionId, (session) => {
+      if (session.active) {
+        const partnerUid = session.users.find((u) => u !== firebaseUid);
+        updateOneOnOne({
+          connectedPartner: partnerUid ? session.userProfiles[partnerUid] : null,
+        });
+        return;
+      }
+
+      setRooms((prev) => {
+        const room = prev[RoomType.ONE_ON_ONE];
+        if (room.sessionId !== sessionId) return prev;
+        const notice: Message = {
+          id: `${sessionId}_ended`,
+          sender: "",
+          text: "Stranger disconnected",
+          timestamp: Date.now(),
+          isMe: false,
+          readBy: [],
+          system: true,
+        };
+        return {
+          ...prev,
+          [RoomType.ONE_ON_ONE]: {
+            ...room,
+            connectedPartner: null,
+            sessionId: null,
+            messages:
+              session.endedBy === firebaseUid
+                ? room.messages
+                : [...room.messages, notice],
+          },
+        };
+      });
+    });
+
+    const unsubMessages = watchSessionMessages(db, sessionId, firebaseUid, (msg, isNew) => {
+      const mentioned = mentionsUser(msg, firebaseUid, userRef.current?.username || "");
+      if (isNew) notifyArrival(RoomType.ONE_ON_ONE, msg, mentioned);
+      setRooms((prev) => {
+        const room = prev[RoomType.ONE_ON_ONE];
+        const unread = isUnreadArrival(room, msg, RoomType.ONE_ON_ONE);
+        return {
+          ...prev,
+          [RoomType.ONE_ON_ONE]: {
+            ...room,
+            messages: upsertMessage(room.messages, msg),
+            unreadCount: room.unreadCount + (unread ? 1 : 0),
+            mentionCount: room.mentionCount + (unread && mentioned ? 1 : 0),
+          },
+        };
+      });
+    });
+
+    return () => {
+      unsubSession();
+      unsubMessages();
+    };
+  }, [sessionId, firebaseUid]);
+
+  // Best-effort teardown so the partner isn't left talking to nobody
+  useEffect(() => {
+    if (!firebaseUid || !db) return;
+    if (!sessionId && !oneOnOne.isSearching) return;
+
+    const handleUnload = () => {
+      if (sessionId) endSession(db, sessionId, firebaseUid);
+      else leaveQueue(db, firebaseUid);
+    };
+
+    window.addEventListener("beforeunload", handleUnload);
+    return () => window.removeEventListener("beforeunload", handleUnload);
+  }, [sessionId, oneOnOne.isSearching, firebaseUid]);
+
+  const handleSkip = async () => {
+    if (!db || !firebaseUid) return;
+    if (sessionId) {
+      updateOneOnOne({ sessionId: null, connectedPartner: null });
+      await endSession(db, sessionId, firebaseUid).catch(() => {});
+    }
+    await startMatchmaking();
+  };
+
+  const handleCancelSearch = async () => {
+    if (!db || !firebaseUid) return;
+    setQueueEntry(null);
+    updateOneOnOne({ isSearching: false, searchWidened: false });
+    await cancelSearch(db, firebaseUid).catch((err) => console.error("Cancel search error", err));
+  };
+
+  // The one-on-one room opens on the preference picker; its "Find a partner"
+  // button starts the search
+  const handleSelectRoom = (r: RoomType) => {
+    setActiveRoom(r);
+    setIsMobileMenuOpen(false);
+  };
+
+  /* ---------------- TYPING ---------------- */
+
+  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const typingReporter = useRef<ReturnType<typeof createTypingReporter> | null>(null);
+
+  const typingKey = !user
+    ? null
+    : activeRoom === RoomType.ONE_ON_ONE
+      ? sessionId
+        ? sessionTypingKey(sessionId)
+        : null
+      : getRoomId(activeRoom, user);
+
+  // Only the room on screen is watched; demo mode never writes
+  useEffect(() => {
+    if (!typingKey || !user || !firebaseUid || !db || isDemoMode || !profileSaved) return;
+
+    const reporter = createTypingReporter(db, typingKey, firebaseUid, user.username);
+    typingReporter.current = reporter;
+    const unsub = watchTyping(db, typingKey, firebaseUid, setTypingUsers);
+
+    return () => {
+      reporter.stop();
+      typingReporter.current = null;
+      unsub();
+      setTypingUsers([]);
+    };
+  }, [typingKey, user, firebaseUid, isDemoMode, profileSaved]);
 
   /* ---------------- LOGIN ---------------- */
 
-  const handleLogin = (profile: UserProfile) => {
+  // Sets the profile and names the location rooms. A room whose id changed
+  // (new country or state) starts empty; the listener fills it from the new id.
+  const applyProfile = (profile: UserProfile) => {
+    const previous = userRef.current;
+    const roomFor = (type: RoomType, prev: ChatRoom, name: string) =>
+      previous && getRoomId(type, previous) !== getRoomId(type, profile)
+        ? { ...EMPTY_ROOMS[type], name }
+        : { ...prev, name };
+
     setUser(profile);
     setRooms((prev) => ({
       ...prev,
-      [RoomType.COUNTRY]: { ...prev[RoomType.COUNTRY], name: profile.country },
-      [RoomType.STATE]: {
-        ...prev[RoomType.STATE],
-        name: `${profile.state}, ${profile.country}`,
-      },
+      [RoomType.COUNTRY]: roomFor(RoomType.COUNTRY, prev[RoomType.COUNTRY], profile.country),
+      [RoomType.STATE]: roomFor(RoomType.STATE, prev[RoomType.STATE], `${profile.state}, ${profile.country}`),
     }));
   };
 
-  /* ---------------- SEND MESSAGE ---------------- */
+  // Writes the profile to users/{uid}, or localStorage in demo mode; rejects
+  // with a message for the form if it can't be saved
+  const saveProfile = async (profile: UserProfile) => {
+    if (isDemoMode) {
+      saveLocalProfile(profile);
+      return;
+    }
+    if (!db || !firebaseUid) throw new Error("Still connecting, try again in a moment");
+    try {
+      await claimProfile(db, firebaseUid, profile);
+    } catch (err) {
+      if (err instanceof UsernameTakenError) throw err;
+      console.error("Profile error", err);
+      throw new Error("Couldn't save your profile. Try again.");
+    }
+  };
+
+  // Claims the username first; rejects if it's gone. The rules decide which
+  // rooms we may read from users/{uid}, so room listeners wait for this.
+  const handleLogin = async (profile: UserProfile) => {
+    const next = { ...profile, userId: firebaseUid || undefined };
+    await saveProfile(next);
+    if (!isDemoMode) setProfileSaved(true);
+    applyProfile(next);
+  };
 
-  const handleSendMessage = async (text: string) => {
+  // Moving country or state moves the COUNTRY/STATE subscriptions with it:
+  // the listener, presence and room settings effects all follow `user`
+  const handleUpdateProfile = async (country: string, state: string, preferredLanguage: string) => {
     if (!user) return;
+    const next = { ...user, country, state, preferredLanguage };
+    await saveProfile(next);
+    applyProfile(next);
+  };
+
+  // Ends any chat, frees the username and signs out. Anonymous accounts can't
+  // be signed back into, so the profile goes with it; onAuthStateChanged then
+  // signs in a fresh uid for the next Login.
+  const handleLogout = async () => {
+    const me = user;
+    const uid = firebaseUid;
+    const activeSession = sessionId;
+    const searching = oneOnOne.isSearching;
+
+    typingReporter.current?.stop();
+    setUser(null);
+    setProfileSaved(false);
+    setRooms(EMPTY_ROOMS);
+    setActiveRoom(RoomType.WORLD);
+    setQueueEntry(null);
+    setUserNames({});
+    setPrefs(EMPTY_PREFS);
+    setSendLimits(EMPTY_LIMITS);
+    setRoomSettings({});
+    setShowModeration(false);
+    setIsMobileMenuOpen(true);
 
     if (isDemoMode) {
+      clearLocalProfile();
+      clearLocalPrefs();
+      return;
+    }
+    if (!db || !auth || !uid) return;
+
+    setIsModerator(false);
+    setSuspension(null);
+    setFirebaseUid(null);
+
+    if (activeSession) await endSession(db, activeSession, uid).catch(() => {});
+    else if (searching) await leaveQueue(db, uid).catch(() => {});
+    if (me) await releaseProfile(db, uid, me.username).catch((err) => console.error("Release profile error", err));
+    await signOut(auth).catch((err) => console.error("Sign out error", err));
+  };
+
+  /* ---------------- MENTIONS ---------------- */
+
+  // Autocomplete offers whoever is online in the room
+  const roomOnlineUsers = (type: RoomType): MentionCandidate[] => {
+    if (!user) return [];
+    if (type === RoomType.ONE_ON_ONE) {
+      const partner = rooms[RoomType.ONE_ON_ONE].connectedPartner;
+      return partner?.userId ? [{ userId: partner.userId, username: partner.username }] : [];
+    }
+    return onlineUsers
+      .filter(
+        (u) =>
+          !isBlocked(prefs, u.userId) &&
+          (type === RoomType.WORLD ||
+            (u.country === user.country && (type === RoomType.COUNTRY || u.state === user.state)))
+      )
+      .map((u) => ({ userId: u.userId, username: u.username }));
+  };
+
+  // Recent senders resolve too, so replying to someone who just left still
+  // notifies them
+  const mentionCandidates = (type: RoomType) => {
+    const byUid = new Map(roomOnlineUsers(type).map((c) => [c.userId, c]));
+    rooms[type].messages.forEach((m) => {
+      if (m.senderUid && m.senderUid !== firebaseUid && !byUid.has(m.senderUid) && !isBlocked(prefs, m.senderUid)) {
+        byUid.set(m.senderUid, { userId: m.senderUid, username: m.sender });
+      }
+    });
+    return Array.from(byUid.values());
+  };
+
+  /* ---------------- SEND LIMITS ---------------- */
+
+  useEffect(() => {
+    if (!firebaseUid || !db || isDemoMode) return;
+    return watchSendLimits(db, firebaseUid, setSendLimits);
+  }, [firebaseUid, isDemoMode]);
+
+  useEffect(() => {
+    if (!user || !db || isDemoMode) return;
+    const roomIds = ROOM_KEYS.map((t) => getRoomId(t, user)).filter((id): id is string => !!id);
+    return watchRoomSettings(db, roomIds, setRoomSettings);
+  }, [user?.country, user?.state, isDemoMode]);
+
+  // One-on-one sends all share a key; there is no slow mode there
+  const limitKey = (type: RoomType) =>
+    type === RoomType.ONE_ON_ONE ? SESSION_LIMIT_KEY : user ? getRoomId(type, user) : null;
+
+  const roomSlowMode = (type: RoomType) => {
+    const roomId = type === RoomType.ONE_ON_ONE || !user ? null : getRoomId(type, user);
+    return roomId ? roomSettings[roomId]?.slowModeSec || 0 : 0;
+  };
+
+  // Moderators aren't held to slow mode
+  const slowModeFor = (type: RoomType) => (isModerator ? 0 : roomSlowMode(type));
+
+  const sendReadyAt = (type: RoomType) => {
+    const key = limitKey(type);
+    return key ? nextSendAt(sendLimits, key, slowModeFor(type), Date.now()) : 0;
+  };
+
+  // Attachments check before uploading, so a rate-limited one isn't uploaded
+  // for nothing
+  const ensureCanSend = (type: RoomType) => {
+    const key = limitKey(type);
+    if (key) checkSend(sendLimits, key, slowModeFor(type), "", Date.now());
+  };
+
+  const handleSetSlowMode = async (seconds: number) => {
+    const roomId = user && getRoomId(activeRoom, user);
+    if (!roomId || !db || !firebaseUid || !isModerator) return;
+    await setSlowMode(db, roomId, seconds, firebaseUid);
+  };
+
+  /* ---------------- SEND MESSAGE ---------------- */
+
+  // Local-only notice in a room, e.g. telling the sender their message was held
+  const addRoomNotice = (type: RoomType, text: string) => {
+    const notice: Message = {
+      id: `notice_${Date.now()}`,
+      sender: "",
+      text,
+      timestamp: Date.now(),
+      isMe: false,
+      readBy: [],
+      system: true,
+    };
+    setRooms((p) => ({
+      ...p,
+      [type]: { ...p[type], messages: [...p[type].messages, notice] },
+    }));
+  };
+
+  // Rejects with a message for the sender when moderation or the send
+  // limits turn it down
+  const handleSendMessage = async (
+    text: string,
+    replyTo?: Message["replyTo"],
+    attachment?: Message["attachment"]
+  ) => {
+    if (!user || suspension) return;
+    const type = activeRoom;
+    const key = limitKey(type);
+    if (!key) return;
+    // Attachments carry fallback text, which mustn't count as a repeat
+    const countedText = attachment ? "" : text;
+    checkSend(sendLimits, key, slowModeFor(type), countedText, Date.now());
+    typingReporter.current?.stop();
+
+    // Public rooms only; one-on-one chats rely on reports and blocking. The
+    // proxy's verdict is binding: its id is the only one the rules accept.
+    let body = text;
+    let screened: ModerationVerdict | null = null;
+    if (type !== RoomType.ONE_ON_ONE && !attachment) {
+      screened = isDemoMode ? await moderateText(text) : await screenText(text, key);
+      if (screened.action === "reject") throw new Error(`Not sent: ${screened.reason}`);
+      body = screened.text;
+    }
+    const held = screened?.action === "hold" ? screened : null;
+    const heldNotice = held && `Your message is waiting for a moderator. ${held.reason}.`;
+    const mentions = attachment ? [] : resolveMentions(body, mentionCandidates(type));
+
+    if (isDemoMode) {
+      setSendLimits((l) => recordSend(l, key, countedText, Date.now()));
+      // No review queue without a backend
+      if (heldNotice) {
+        addRoomNotice(type, heldNotice);
+        return;
+      }
       const fake: Message = {
         id: Date.now().toString(),
         sender: user.username,
-        text,
+        text: body,
         timestamp: Date.now(),
         isMe: true,
         readBy: [],
+        replyTo,
+        attachment,
+        mentions,
       };
       setRooms((p) => ({
         ...p,
-        [activeRoom]: {
-          ...p[activeRoom],
-          messages: [...p[activeRoom].messages, fake],
+        [type]: {
+          ...p[type],
+          messages: [...p[type].messages, fake],
         },
       }));
       return;
     }
 
+    if (!db || !firebaseUid || !profileSaved) return;
+
+    try {
+      if (type === RoomType.ONE_ON_ONE) {
+        if (!sessionId) return;
+        await sendSessionMessage(db, sessionId, sendLimits, {
+          text,
+          sender: user.username,
+          senderUid: firebaseUid,
+          replyTo,
+          attachment,
+          mentions,
+        });
+        return;
+      }
+
+      const message: GroupMessageData = {
+        text: body,
+        sender: user.username,
+        senderUid: firebaseUid,
+        roomId: key,
+        readBy: [],
+        tokens: attachment ? [] : tokenize(body),
+        mentions,
+        ...(replyTo ? { replyTo } : {}),
+        ...(attachment ? { attachment } : {}),
+      };
+
+      if (held && heldNotice) {
+        const heldDoc: HeldMessageDoc = {
+          message,
+          roomType: type,
+          reason: held.reason || "",
+          source: held.source || "",
+          heldAt: Date.now(),
+        };
+        await sendCounted(db, firebaseUid, sendLimits, key, countedText, heldMessageRef(db, held.id!), heldDoc);
+        addRoomNotice(type, heldNotice);
+        return;
+      }
+
+      // Screened text goes under its screening's id; attachments aren't screened
+      const ref = screened?.id ? doc(db, MESSAGES, screened.id) : doc(collection(db, MESSAGES));
+      await sendCounted(db, firebaseUid, sendLimits, key, countedText, ref, {
+        ...message,
+        timestamp: Date.now(),
+      });
+    } catch (err) {
+      if ((err as { code?: string }).code !== "permission-denied") throw err;
+      // Our counters may have lagged behind the server's; only blame the
+      // limits if the server's copy says so
+      checkSend(await loadSendLimits(db, firebaseUid), key, slowModeFor(type), countedText, Date.now());
+      throw new Error("Not sent: the server refused this message");
+    }
+  };
+
+  const attachmentBackend = () => {
+    const backend = isDemoMode ? localAttachments : remoteAttachments;
+    if (!backend) throw new Error("Uploads are not configured");
+    return backend;
+  };
+
+  // These reject with a user-facing message; ChatWindow shows it above the input
+  const handleSendImage = async (file: File, replyTo?: Message["replyTo"]) => {
+    if (!user) return;
+    ensureCanSend(activeRoom);
+    const attachment = await uploadImage(attachmentBackend(), firebaseUid || "demo", file);
+    await handleSendMessage(ATTACHMENT_FALLBACK.image, replyTo, attachment);
+  };
+
+  const handleSendVoice = async (recording: VoiceRecording, replyTo?: Message["replyTo"]) => {
+    if (!user) return;
+    ensureCanSend(activeRoom);
+    const attachment = await uploadVoice(attachmentBackend(), firebaseUid || "demo", recording);
+    await handleSendMessage(ATTACHMENT_FALLBACK.audio, replyTo, attachment);
+  };
+
+  /* ---------------- MUTE ---------------- */
+
+  const handleMuteRoom = (type: RoomType, durationMs: number | null) => {
+    const until = durationMs === null ? null : Date.now() + durationMs;
+    updatePrefs(
+      { ...prefs, mutedRooms: { ...prefs.mutedRooms, [type]: until } },
+      (db, uid) => muteRoom(db, uid, type, until),
+      "Mute"
+    );
+  };
+
+  const handleUnmuteRoom = (type: RoomType) => {
+    const { [type]: _, ...mutedRooms } = prefs.mutedRooms;
+    updatePrefs({ ...prefs, mutedRooms }, (db, uid) => unmuteRoom(db, uid, type), "Unmute");
+  };
+
+  /* ---------------- UNSEND / DELETE FOR YOU ---------------- */
+
+  const handleDeleteMessage = async (messageId: string) => {
+    const msg = rooms[activeRoom].messages.find((m) => m.id === messageId);
+    if (!msg || !msg.isMe || msg.unsent) return;
+
+    if (isDemoMode) {
+      const type = activeRoom;
+      setRooms((prev) => ({
+        ...prev,
+        [type]: {
+          ...prev[type],
+          messages: prev[type].messages.map((m) =>
+            m.id === messageId
+              ? { ...m, text: "", replyTo: undefined, attachment: undefined, reactions: undefined, unsent: true }
+              : m
+          ),
+        },
+      }));
+      if (msg.attachment) removeAttachment(localAttachments, msg.attachment);
+      return;
+    }
+
+    if (!db) return;
+    if (activeRoom === RoomType.ONE_ON_ONE && !sessionId) return;
+    try {
+      await unsendMessage(db, messageId, activeRoom === RoomType.ONE_ON_ONE ? sessionId : null);
+    } catch (err) {
+      console.error("Unsend error", err);
+      return;
+    }
+    if (msg.attachment && remoteAttachments) {
+      removeAttachment(remoteAttachments, msg.attachment).catch((err) =>
+        console.error("Attachment cleanup error", err)
+      );
+    }
+  };
+
+  const handleDeleteForYou = (messageId: string) => {
+    if (prefs.hiddenMessages.includes(messageId)) return;
+    updatePrefs(
+      { ...prefs, hiddenMessages: [...prefs.hiddenMessages, messageId] },
+      (db, uid) => hideMessage(db, uid, messageId),
+      "Delete for you"
+    );
+  };
+
+  /* ---------------- BLOCKING ---------------- */
+
+  // Blocks are keyed by uid and filter that sender everywhere. A blocked
+  // one-on-one partner is disconnected, and matchmaking never pairs us again:
+  // pairsQueuedUsers and hasBlocked in firestore.rules read the block list
+  // from userPrefs, so a waiting queue entry needs no update.
+  const handleBlockUser = (uid: string, username: string) => {
+    if (isBlocked(prefs, uid)) return;
+    const entry = { username, at: Date.now() };
+    const blocked = { ...prefs.blocked, [uid]: entry };
+    updatePrefs({ ...prefs, blocked }, (db, me) => blockUser(db, me, uid, entry), "Block");
+
     if (!db || !firebaseUid) return;
+    if (sessionId && oneOnOne.connectedPartner?.userId === uid) {
+      updateOneOnOne({ sessionId: null, connectedPartner: null });
+      endSession(db, sessionId, firebaseUid).catch(() => {});
+    }
+  };
 
-    let roomId = "";
-    if (activeRoom === RoomType.WORLD) roomId = "WORLD_CHAT";
-    if (activeRoom === RoomType.COUNTRY) roomId = `COUNTRY_${user.country}`;
-    if (activeRoom === RoomType.STATE)
-      roomId = `STATE_${user.state}_${user.country}`;
+  const handleUnblockUser = (uid: string) => {
+    const { [uid]: _, ...blocked } = prefs.blocked;
+    updatePrefs({ ...prefs, blocked }, (db, me) => unblockUser(db, me, uid), "Unblock");
+  };
 
-    if (!roomId) return;
+  /* ---------------- MODERATION ---------------- */
 
-    await addDoc(collection(db, "messages"), {
-      text,
-      sender: user.username,
-      senderUid: firebaseUid,
+  useEffect(() => {
+    if (!firebaseUid || !db || isDemoMode) return;
+    return watchSuspension(db, firebaseUid, setSuspension);
+  }, [firebaseUid, isDemoMode]);
+
+  // Lift the suspension locally once it runs out. setTimeout overflows past
+  // ~24.8 days, and nobody keeps a tab open that long anyway.
+  useEffect(() => {
+    if (!suspension) return;
+    const remaining = suspension.until - Date.now();
+    if (remaining > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => setSuspension(null), remaining);
+    return () => clearTimeout(timer);
+  }, [suspension]);
+
+  // Moderators only; the review queue is watched while the panel is open
+  useEffect(() => {
+    if (!showModeration || !isModerator || !db) return;
+    return watchOpenReports(db, setReports);
+  }, [showModeration, isModerator]);
+
+  useEffect(() => {
+    if (!showModeration || !isModerator || !db) return;
+    return watchHeldMessages(db, setHeldMessages);
+  }, [showModeration, isModerator]);
+
+  const handleReport = async (
+    report: ReportTarget & { reason: ReportReason; details: string }
+  ) => {
+    if (!user || !db || !firebaseUid || isDemoMode) return;
+    const type = activeRoom;
+    const roomId = type === RoomType.ONE_ON_ONE ? sessionId : getRoomId(type, user);
+    if (!roomId) throw new Error("Nothing to report in this room");
+
+    await submitReport(db, {
+      reporterUid: firebaseUid,
+      reporterName: user.username,
+      targetUid: report.uid,
+      targetUsername: report.username,
+      messageId: report.messageId,
+      roomType: type,
       roomId,
-      timestamp: Date.now(),
-      readBy: [user.username],
+      sessionId: type === RoomType.ONE_ON_ONE ? sessionId : null,
+      reason: report.reason,
+      details: report.details,
+      contextIds: reportContextIds(rooms[type].messages, report.messageId, report.uid),
+    });
+  };
+
+  /* ---------------- READ RECEIPTS ---------------- */
+
+  // ChatWindow reports batches of messages that have scrolled into view
+  const handleMarkRead = (messageIds: string[]) => {
+    if (!user || !db || !firebaseUid || isDemoMode) return;
+    const type = activeRoom;
+    if (type === RoomType.ONE_ON_ONE && !sessionId) return;
+
+    const unread = messageIds.filter((id) => {
+      const msg = rooms[type].messages.find((m) => m.id === id);
+      return msg && !msg.isMe && !msg.system && !msg.readReceipts?.[firebaseUid] && !receiptsFull(msg);
+    });
+    if (unread.length === 0) return;
+
+    markRead(
+      db,
+      unread,
+      { uid: firebaseUid, username: user.username },
+      type === RoomType.ONE_ON_ONE ? sessionId : null
+    ).catch((err) => console.error("Read receipt error", err));
+  };
+
+  /* ---------------- REACTIONS ---------------- */
+
+  // `emoji` null removes the user's reaction; ChatWindow decides toggling
+  const handleReact = (messageId: string, emoji: string | null) => {
+    if (!user) return;
+    const type = activeRoom;
+
+    if (isDemoMode) {
+      setRooms((prev) => ({
+        ...prev,
+        [type]: {
+          ...prev[type],
+          messages: prev[type].messages.map((m) => {
+            if (m.id !== messageId) return m;
+            const { demo: _, ...others } = m.reactions || {};
+            return {
+              ...m,
+              reactions: emoji ? { ...others, demo: { username: user.username, emoji } } : others,
+            };
+          }),
+        },
+      }));
+      return;
+    }
+
+    if (!db || !firebaseUid) return;
+    if (type === RoomType.ONE_ON_ONE && !sessionId) return;
+    // A new reactor can't join a full message; the rules would refuse it
+    const msg = rooms[type].messages.find((m) => m.id === messageId);
+    if (emoji && msg && !msg.reactions?.[firebaseUid] && reactionsFull(msg)) return;
+    setReaction(
+      db,
+      messageId,
+      { uid: firebaseUid, username: user.username },
+      emoji,
+      type === RoomType.ONE_ON_ONE ? sessionId : null
+    ).catch((err) => console.error("Reaction error", err));
+  };
+
+  /* ---------------- TRANSLATION ---------------- */
+
+  const patchMessage = (type: RoomType, messageId: string, patch: Partial<Message>) =>
+    setRooms((prev) => ({
+      ...prev,
+      [type]: {
+        ...prev[type],
+        messages: prev[type].messages.map((m) => (m.id === messageId ? { ...m, ...patch } : m)),
+      },
+    }));
+
+  const targetLanguage = user?.preferredLanguage || defaultLanguageCode();
+
+  const handleTranslate = async (messageId: string, text: string) => {
+    const type = activeRoom;
+    patchMessage(type, messageId, { translationStatus: "loading" });
+    try {
+      const translation = await translate(messageId, text, targetLanguage);
+      patchMessage(type, messageId, { translation, translationStatus: undefined });
+    } catch (err) {
+      console.error("Translation error", err);
+      patchMessage(type, messageId, { translationStatus: "failed" });
+    }
+  };
+
+  const handleToggleAutoTranslate = (type: RoomType) => {
+    const enabled = !prefs.autoTranslateRooms.includes(type);
+    updatePrefs(
+      {
+        ...prefs,
+        autoTranslateRooms: enabled
+          ? [...prefs.autoTranslateRooms, type]
+          : prefs.autoTranslateRooms.filter((r) => r !== type),
+      },
+      (db, uid) => setRoomAutoTranslate(db, uid, type, enabled),
+      "Auto-translate toggle"
+    );
+  };
+
+  // Feed incoming messages in auto-translate rooms to the batching queue
+  const autoTranslated = useRef(new Set<string>());
+
+  useEffect(() => {
+    prefs.autoTranslateRooms.forEach((type) => {
+      rooms[type].messages.forEach((m) => {
+        if (m.isMe || m.system || m.unsent || !m.text || m.translation) return;
+        const key = `${m.id}:${targetLanguage}`;
+        if (autoTranslated.current.has(key)) return;
+        autoTranslated.current.add(key);
+
+        queueAutoTranslation(m.id, m.text, targetLanguage)
+          .then((translation) => {
+            if (translation) patchMessage(type, m.id, { translation });
+          })
+          // Not retried automatically; the Translate menu item still works
+          .catch((err) => console.error("Auto-translate error", err));
+      });
     });
+  }, [rooms, prefs.autoTranslateRooms, targetLanguage]);
+
+  /* ---------------- HISTORY ---------------- */
+
+  // Keeps a freshly paged-in range up to date. Its first snapshot repeats
+  // what was just loaded, so only later changes are applied.
+  const followHistory = (type: RoomType, roomId: string, from: number, to: number) => {
+    if (!db || !firebaseUid) return;
+    const unsub = watchRoomMessages(db, roomId, firebaseUid, { from, to }, (changes, initial) => {
+      if (initial) return;
+      setRooms((prev) => ({
+        ...prev,
+        [type]: {
+          ...prev[type],
+          messages: changes.reduce((messages, { msg }) => upsertMessage(messages, msg), prev[type].messages),
+        },
+      }));
+    });
+    historyListeners.current.push(unsub);
+  };
+
+  // Pulls in older history until `messageId` is loaded; used to jump to quotes
+  const handleLoadMessage = async (messageId: string) => {
+    const room = rooms[activeRoom];
+    if (room.messages.some((m) => m.id === messageId)) return true;
+    if (!user || !db || !firebaseUid || isDemoMode) return false;
+
+    const roomId = getRoomId(activeRoom, user);
+    if (!roomId) return false;
+
+    const oldest = room.messages[0]?.timestamp ?? Date.now();
+    const older = await loadHistoryFrom(db, roomId, messageId, oldest, firebaseUid);
+    if (!older) return false;
+
+    const type = activeRoom;
+    setRooms((prev) => ({
+      ...prev,
+      [type]: { ...prev[type], messages: mergeMessages(prev[type].messages, older) },
+    }));
+    if (older.length) followHistory(type, roomId, older[0].timestamp, oldest);
+    return true;
+  };
+
+  // Infinite scroll: next page above the oldest loaded message. Resolves to
+  // the number of messages added.
+  const handleLoadOlder = async () => {
+    const type = activeRoom;
+    const room = rooms[type];
+    if (!user || !db || !firebaseUid || isDemoMode || !room.hasMoreHistory) return 0;
+
+    const roomId = getRoomId(type, user);
+    if (!roomId || room.messages.length === 0) return 0;
+
+    try {
+      const before = room.messages[0].timestamp;
+      const older = await loadOlderMessages(db, roomId, before, firebaseUid);
+      if (older.length) followHistory(type, roomId, older[0].timestamp, before);
+      const known = new Set(room.messages.map((m) => m.id));
+      setRooms((prev) => ({
+        ...prev,
+        [type]: {
+          ...prev[type],
+          messages: mergeMessages(prev[type].messages, older),
+          hasMoreHistory: older.length >= HISTORY_PAGE,
+        },
+      }));
+      return older.filter((m) => !known.has(m.id)).length;
+    } catch (err) {
+      console.error("History error", err);
+      return 0;
+    }
+  };
+
+  /* ---------------- SEARCH ---------------- */
+
+  // Message to scroll to once its room is on screen (set by search results)
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+
+  const handleSearch = (q: SearchQuery) => {
+    const local = createLocalSearch(rooms);
+    if (!user || !db || !firebaseUid || isDemoMode) return local.search(q);
+    return createFirestoreSearch(db, firebaseUid, user, local).search(q);
+  };
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    setActiveRoom(result.roomType);
+    setJumpToMessageId(result.message.id);
   };
 
   /* ---------------- UI ---------------- */
 
-  if (!user) return <Login onLogin={handleLogin} />;
+  if (!user) {
+    if (restoring) {
+      return (
+        <div className="flex h-screen items-center justify-center bg-black">
+          <Loader2 className="w-8 h-8 text-pink-500 animate-spin" />
+        </div>
+      );
+    }
+    return (
+      <Login
+        onLogin={handleLogin}
+        checkUsername={
+          db && firebaseUid && !isDemoMode ? (name) => checkUsername(db!, firebaseUid, name) : undefined
+        }
+        connecting={!isDemoMode && !firebaseUid}
+      />
+    );
+  }
 
   return (
     <div className="flex h-screen bg-black text-white">
       <div className={`${isMobileMenuOpen ? "block" : "hidden"} md:block`}>
         <ChatList
-          rooms={rooms}
+          rooms={displayRooms}
+          senderName={senderName}
           activeRoom={activeRoom}
-          onSelectRoom={(r) => {
-            setActiveRoom(r);
-            setIsMobileMenuOpen(false);
-          }}
-          onLogout={() => window.location.reload()}
+          onSelectRoom={handleSelectRoom}
+          onLogout={handleLogout}
+          onUpdateProfile={handleUpdateProfile}
+          blockedUsers={prefs.blocked}
+          hiddenMessageIds={prefs.hiddenMessages}
+          onUnblockUser={handleUnblockUser}
+          isModerator={isModerator}
+          onOpenModeration={() => setShowModeration(true)}
+          notificationsEnabled={notificationsEnabled}
+          onToggleNotifications={handleToggleNotifications}
           currentUser={user.username}
-          onlineUsers={[]}
+          onlineUsers={onlineUsers}
           userCountry={user.country}
           userState={user.state}
-          onToggleMute={() => {}}
+          userLanguage={targetLanguage}
+          onMuteRoom={handleMuteRoom}
+          onUnmuteRoom={handleUnmuteRoom}
+          autoTranslateRooms={prefs.autoTranslateRooms}
+          onToggleAutoTranslate={handleToggleAutoTranslate}
         />
       </div>
 
       <div className="flex-1">
         <ChatWindow
-          room={rooms[activeRoom]}
+          room={displayRooms[activeRoom]}
+          senderName={senderName}
           onSendMessage={handleSendMessage}
+          onSendImage={handleSendImage}
+          onSendVoice={handleSendVoice}
+          onLoadMessage={handleLoadMessage}
+          onLoadOlder={handleLoadOlder}
+          onSearch={handleSearch}
+          onOpenSearchResult={handleOpenSearchResult}
+          jumpToMessageId={jumpToMessageId}
+          onJumpHandled={() => setJumpToMessageId(null)}
           onBack={() => setIsMobileMenuOpen(true)}
-          blockedUsers={blockedUsers}
-          onBlockUser={(u) => setBlockedUsers((p) => [...p, u])}
+          blockedUids={Object.keys(prefs.blocked)}
+          onBlockUser={handleBlockUser}
+          onReport={handleReport}
+          suspendedUntil={suspension?.until ?? null}
+          sendReadyAt={sendReadyAt(activeRoom)}
+          slowModeSec={roomSlowMode(activeRoom)}
+          canSetSlowMode={isModerator && !isDemoMode && activeRoom !== RoomType.ONE_ON_ONE}
+          onSetSlowMode={handleSetSlowMode}
           isWsConnected={true}
           currentUser={user.username}
+          currentUserId={firebaseUid}
           userCountry={user.country}
           userState={user.state}
-          onDeleteMessage={() => {}}
-          onDeleteForYou={() => {}}
-          onTranslate={() => {}}
-          onSkip={() => {}}
+          onMarkRead={handleMarkRead}
+          onReact={handleReact}
+          mentionCandidates={roomOnlineUsers(activeRoom)}
+          typingUsers={typingUsers}
+          onTyping={() => typingReporter.current?.onInput()}
+          hiddenMessageIds={prefs.hiddenMessages}
+          onDeleteMessage={handleDeleteMessage}
+          onDeleteForYou={handleDeleteForYou}
+          onTranslate={handleTranslate}
+          onSkip={handleSkip}
+          onCancelSearch={handleCancelSearch}
+          matchPreference={matchPreference}
+          onChangeMatchPreference={setMatchPreference}
         />
       </div>
+
+      {showModeration && isModerator && db && firebaseUid && (
+        <ModerationPanel
+          reports={reports}
+          heldMessages={heldMessages}
+          onApproveHeld={(h) => approveHeldMessage(db!, h)}
+          onDiscardHeld={(h) => discardHeldMessage(db!, h)}
+          onLoadContext={(r) => loadReportContext(db!, r)}
+          onDismiss={(r) => dismissReport(db!, r, firebaseUid)}
+          onDeleteMessage={(r) => deleteReportedMessage(db!, r, firebaseUid)}
+          onSuspend={(r, uid, durationMs) => suspendUser(db!, r, uid, firebaseUid, durationMs)}
+          onClose={() => setShowModeration(false)}
+        />
+      )}
     </div>
   );
 };
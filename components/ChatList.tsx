@@ -1,42 +1,76 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { RoomType, ChatRoom, UserProfile } from '../types';
-import { MoreVertical, BellOff, Volume2, Radio, User, Zap, LogOut } from 'lucide-react';
+import { RoomType, ChatRoom, Message, UserProfile, OnlineUserDoc, BlockedUser } from '../types';
+import { MoreVertical, BellOff, Bell, Volume2, Radio, User, Zap, LogOut, Languages, Ban, ArrowLeft, ShieldAlert, MapPin, UserPen, Loader2 } from 'lucide-react';
 import { Logo } from './Logo';
-import { COUNTRY_CODES } from '../data/locations';
-
-interface OnlineUser {
-  username: string;
-  country: string;
-  state: string;
-  timestamp: number;
-}
+import { COUNTRY_CODES, LOCATIONS } from '../data/locations';
+import { LANGUAGES } from '../data/languages';
 
 interface ChatListProps {
   rooms: Record<RoomType, ChatRoom>;
+  senderName: (msg: Message) => string; // Resolved from the sender's uid
   activeRoom: RoomType;
   onSelectRoom: (room: RoomType) => void;
-  onToggleMute: (room: RoomType) => void;
+  onMuteRoom: (room: RoomType, durationMs: number | null) => void; // null = until unmuted
+  onUnmuteRoom: (room: RoomType) => void;
+  autoTranslateRooms: RoomType[];
+  onToggleAutoTranslate: (room: RoomType) => void;
   onLogout: () => void;
+  onUpdateProfile: (country: string, state: string, preferredLanguage: string) => Promise<void>; // Rejects with a message to show
+  blockedUsers: Record<string, BlockedUser>; // Keyed by uid
+  hiddenMessageIds: string[]; // Deleted for this user only
+  onUnblockUser: (uid: string) => void;
+  isModerator: boolean;
+  onOpenModeration: () => void;
+  notificationsEnabled: boolean;
+  onToggleNotifications: () => void;
   currentUser: string;
-  onlineUsers: OnlineUser[];
+  onlineUsers: OnlineUserDoc[];
   userCountry: string;
   userState: string;
+  userLanguage: string; // Translation target
 }
 
-export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectRoom, onToggleMute, onLogout, currentUser, onlineUsers, userCountry, userState }) => {
+const MUTE_OPTIONS: { label: string; durationMs: number | null }[] = [
+  { label: 'For 1 hour', durationMs: 60 * 60 * 1000 },
+  { label: 'For 8 hours', durationMs: 8 * 60 * 60 * 1000 },
+  { label: 'Until I unmute', durationMs: null },
+];
+
+export const ChatList: React.FC<ChatListProps> = ({ rooms, senderName, activeRoom, onSelectRoom, onMuteRoom, onUnmuteRoom, autoTranslateRooms, onToggleAutoTranslate, onLogout, onUpdateProfile, blockedUsers, hiddenMessageIds, onUnblockUser, isModerator, onOpenModeration, notificationsEnabled, onToggleNotifications, currentUser, onlineUsers, userCountry, userState, userLanguage }) => {
   const [menuOpenId, setMenuOpenId] = useState<RoomType | null>(null);
+  const [muteOptionsOpen, setMuteOptionsOpen] = useState(false);
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
+  const [showEditProfile, setShowEditProfile] = useState(false);
+  const [editCountry, setEditCountry] = useState(userCountry);
+  const [editState, setEditState] = useState(userState);
+  const [editLanguage, setEditLanguage] = useState(userLanguage);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     const handleClickOutside = () => {
         setMenuOpenId(null);
+        setMuteOptionsOpen(false);
         setProfileMenuOpen(false);
     };
     window.addEventListener('click', handleClickOutside);
     return () => window.removeEventListener('click', handleClickOutside);
   }, []);
 
+  // The preview shows what the room itself would show last, so blocked
+  // senders and messages deleted for this user stay out of it
+  const lastVisibleMessage = (room: ChatRoom) => {
+    for (let i = room.messages.length - 1; i >= 0; i--) {
+      const msg = room.messages[i];
+      if (msg.senderUid && blockedUsers[msg.senderUid]) continue;
+      if (hiddenMessageIds.includes(msg.id)) continue;
+      return msg;
+    }
+    return undefined;
+  };
+
   const getIcon = (type: RoomType, partner?: UserProfile | null) => {
     switch (type) {
       case RoomType.WORLD: 
@@ -70,6 +104,7 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
   const handleTouchStart = (roomId: RoomType) => {
     longPressTimer.current = setTimeout(() => {
         setMenuOpenId(roomId);
+        setMuteOptionsOpen(false);
     }, 500);
   };
 
@@ -80,16 +115,33 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
     }
   };
 
-  const toggleMute = (e: React.MouseEvent, roomId: RoomType) => {
+  const toggleMute = (e: React.MouseEvent, room: ChatRoom) => {
+      e.stopPropagation();
+      if (room.muted) {
+          onUnmuteRoom(room.id);
+          setMenuOpenId(null);
+      } else {
+          setMuteOptionsOpen(!muteOptionsOpen);
+      }
+  };
+
+  const muteFor = (e: React.MouseEvent, roomId: RoomType, durationMs: number | null) => {
       e.stopPropagation();
-      onToggleMute(roomId);
+      onMuteRoom(roomId, durationMs);
+      setMuteOptionsOpen(false);
+      setMenuOpenId(null);
+  };
+
+  const toggleAutoTranslate = (e: React.MouseEvent, roomId: RoomType) => {
+      e.stopPropagation();
+      onToggleAutoTranslate(roomId);
       setMenuOpenId(null);
   };
 
   const getFilteredOnlineUsers = (roomId: RoomType) => {
       if (roomId === RoomType.WORLD) return onlineUsers;
       if (roomId === RoomType.COUNTRY) return onlineUsers.filter(u => u.country === userCountry);
-      if (roomId === RoomType.STATE) return onlineUsers.filter(u => u.state === userState);
+      if (roomId === RoomType.STATE) return onlineUsers.filter(u => u.country === userCountry && u.state === userState);
       return onlineUsers; 
   };
 
@@ -97,8 +149,144 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
 
   const currentRoomOnlineUsers = getFilteredOnlineUsers(activeRoom);
 
+  const openEditProfile = () => {
+    setEditCountry(userCountry);
+    setEditState(userState);
+    setEditLanguage(userLanguage);
+    setProfileError(null);
+    setShowEditProfile(true);
+  };
+
+  const handleSaveProfile = async () => {
+    setSavingProfile(true);
+    setProfileError(null);
+    try {
+      await onUpdateProfile(editCountry, editState, editLanguage);
+      setShowEditProfile(false);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : 'Could not save your profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const locationChanged = editCountry !== userCountry || editState !== userState;
+  const profileChanged = locationChanged || editLanguage !== userLanguage;
+
   return (
-    <div className="h-full flex flex-col bg-black border-r border-zinc-800 w-full md:w-80 lg:w-96 flex-shrink-0">
+    <div className="h-full flex flex-col bg-black border-r border-zinc-800 w-full md:w-80 lg:w-96 flex-shrink-0 relative">
+      {/* Blocked Users */}
+      {showBlocked && (
+        <div className="absolute inset-0 z-30 bg-black flex flex-col">
+          <div className="p-6 border-b border-zinc-800 flex items-center gap-3 bg-zinc-950">
+            <button onClick={() => setShowBlocked(false)} className="text-zinc-400 hover:text-white">
+              <ArrowLeft size={20} />
+            </button>
+            <h2 className="text-xl font-bold text-white">Blocked users</h2>
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar">
+            {Object.keys(blockedUsers).length === 0 ? (
+              <p className="px-6 py-10 text-sm text-zinc-500 text-center">You haven't blocked anyone.</p>
+            ) : (
+              Object.entries<BlockedUser>(blockedUsers)
+                .sort((a, b) => b[1].at - a[1].at)
+                .map(([uid, blocked]) => (
+                  <div key={uid} className="flex items-center gap-3 px-6 py-3 border-b border-zinc-900">
+                    <img src={`https://picsum.photos/seed/${blocked.username}/200/200`} alt={blocked.username} className="w-10 h-10 rounded-full bg-zinc-800 object-cover" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-white truncate">{blocked.username}</p>
+                      <p className="text-xs text-zinc-500">Blocked {new Date(blocked.at).toLocaleDateString()}</p>
+                    </div>
+                    <button
+                      onClick={() => onUnblockUser(uid)}
+                      className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-white hover:bg-zinc-700"
+                    >
+                      Unblock
+                    </button>
+                  </div>
+                ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Edit Profile */}
+      {showEditProfile && (
+        <div className="absolute inset-0 z-30 bg-black flex flex-col">
+          <div className="p-6 border-b border-zinc-800 flex items-center gap-3 bg-zinc-950">
+            <button onClick={() => setShowEditProfile(false)} className="text-zinc-400 hover:text-white">
+              <ArrowLeft size={20} />
+            </button>
+            <h2 className="text-xl font-bold text-white">Edit profile</h2>
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar px-6 py-6 space-y-5">
+            <div>
+              <p className="text-xs font-medium text-zinc-400 uppercase tracking-wider mb-2">Username</p>
+              <p className="text-white font-semibold">{currentUser}</p>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-zinc-400 uppercase tracking-wider mb-2">
+                <span className="text-lg">🌍</span> Country
+              </label>
+              <select
+                value={editCountry}
+                onChange={(e) => {
+                  setEditCountry(e.target.value);
+                  setEditState('');
+                }}
+                className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 transition-colors cursor-pointer"
+              >
+                {Object.keys(LOCATIONS).sort().map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-zinc-400 uppercase tracking-wider mb-2">
+                <MapPin size={14} /> State/Region
+              </label>
+              <select
+                value={editState}
+                onChange={(e) => setEditState(e.target.value)}
+                className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 transition-colors cursor-pointer"
+              >
+                <option value="" disabled>Select a state</option>
+                {[...(LOCATIONS[editCountry] || [])].sort().map((s) => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-zinc-400 uppercase tracking-wider mb-2">
+                <Languages size={14} /> Preferred Language
+              </label>
+              <select
+                value={editLanguage}
+                onChange={(e) => setEditLanguage(e.target.value)}
+                className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 transition-colors cursor-pointer"
+              >
+                {Object.entries(LANGUAGES).map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+            </div>
+            {locationChanged && (
+              <p className="text-xs text-zinc-500">
+                Moving takes you out of your current country and state rooms and into the new ones.
+              </p>
+            )}
+            {profileError && <p className="text-sm text-red-400">{profileError}</p>}
+            <button
+              onClick={handleSaveProfile}
+              disabled={!editState || !profileChanged || savingProfile}
+              className="w-full py-3 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {savingProfile ? <Loader2 size={18} className="animate-spin" /> : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="p-6 border-b border-zinc-800 flex justify-between items-center bg-zinc-950 relative z-20">
         <div className="flex items-center gap-3 relative">
@@ -111,10 +299,37 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
             </button>
 
             {profileMenuOpen && (
-                <div className="absolute top-full left-0 mt-2 w-48 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl py-1 overflow-hidden animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
+                <div className="absolute top-full left-0 mt-2 w-56 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl py-1 overflow-hidden animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
+                    <button 
+                        onClick={(e) => { e.stopPropagation(); onToggleNotifications(); setProfileMenuOpen(false); }}
+                        className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2 transition-colors"
+                    >
+                        {notificationsEnabled ? <BellOff size={16} /> : <Bell size={16} />}
+                        {notificationsEnabled ? 'Disable' : 'Enable'} Notifications
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); openEditProfile(); setProfileMenuOpen(false); }}
+                        className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2 transition-colors"
+                    >
+                        <UserPen size={16} /> Edit Profile
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setShowBlocked(true); setProfileMenuOpen(false); }}
+                        className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2 transition-colors"
+                    >
+                        <Ban size={16} /> Blocked Users
+                    </button>
+                    {isModerator && (
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onOpenModeration(); setProfileMenuOpen(false); }}
+                          className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2 transition-colors"
+                      >
+                          <ShieldAlert size={16} /> Moderation
+                      </button>
+                    )}
                     <button 
                         onClick={(e) => { e.stopPropagation(); onLogout(); }}
-                        className="w-full text-left px-4 py-3 text-sm text-red-400 hover:bg-zinc-700 flex items-center gap-2 transition-colors"
+                        className="w-full text-left px-4 py-3 text-sm text-red-400 hover:bg-zinc-700 flex items-center gap-2 transition-colors border-t border-zinc-700"
                     >
                         <LogOut size={16} /> Log Out
                     </button>
@@ -133,7 +348,7 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
         {chatOrder.map((roomId) => {
           const room = rooms[roomId];
           const isActive = activeRoom === room.id;
-          const lastMsg = room.messages[room.messages.length - 1];
+          const lastMsg = lastVisibleMessage(room);
           const time = lastMsg ? new Date(lastMsg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
           const isUnread = room.unreadCount > 0 && !room.muted;
           const onlineCount = getFilteredOnlineUsers(roomId).length;
@@ -176,17 +391,25 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
                      ) : roomId === RoomType.ONE_ON_ONE && !room.connectedPartner ? (
                         <span className="text-pink-400 italic">Tap to start chat</span>
                      ) : lastMsg ? (
-                        `${lastMsg.sender}: ${lastMsg.text}`
+                        `${senderName(lastMsg)}: ${lastMsg.moderated ? 'Removed by a moderator' : lastMsg.unsent ? 'Message unsent' : lastMsg.text}`
                      ) : (
                         <span className="text-zinc-500 italic">{onlineCount} online</span>
                      )}
                   </p>
+                  {room.mentionCount > 0 && (
+                     <span
+                       title={`${room.mentionCount} mention${room.mentionCount === 1 ? '' : 's'}`}
+                       className="ml-2 flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full bg-yellow-400 text-black text-[11px] font-bold flex items-center justify-center"
+                     >
+                       @{room.mentionCount > 1 ? room.mentionCount : ''}
+                     </span>
+                  )}
                 </div>
               </div>
 
               {/* Desktop Menu Button */}
               <button 
-                onClick={(e) => { e.stopPropagation(); setMenuOpenId(room.id); }}
+                onClick={(e) => { e.stopPropagation(); setMenuOpenId(room.id); setMuteOptionsOpen(false); }}
                 className="ml-2 p-1 text-zinc-500 hover:text-white rounded-full hover:bg-zinc-800 hidden md:block opacity-0 group-hover:opacity-100 transition-opacity"
               >
                  <MoreVertical size={16} />
@@ -194,14 +417,30 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
 
               {/* Context Menu (Desktop & Mobile) */}
               {menuOpenId === room.id && (
-                  <div className="absolute right-4 top-10 z-50 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[140px] animate-in fade-in zoom-in duration-200">
+                  <div className="absolute right-4 top-10 z-50 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[180px] animate-in fade-in zoom-in duration-200">
                       <button 
-                        onClick={(e) => toggleMute(e, room.id)}
+                        onClick={(e) => toggleMute(e, room)}
                         className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2"
                       >
                          {room.muted ? <Volume2 size={16} /> : <BellOff size={16} />}
                          {room.muted ? 'Unmute' : 'Mute'} Chat
                       </button>
+                      {muteOptionsOpen && !room.muted && MUTE_OPTIONS.map(opt => (
+                          <button
+                            key={opt.label}
+                            onClick={(e) => muteFor(e, room.id, opt.durationMs)}
+                            className="w-full text-left pl-10 pr-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white"
+                          >
+                             {opt.label}
+                          </button>
+                      ))}
+                      <button 
+                        onClick={(e) => toggleAutoTranslate(e, room.id)}
+                        className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2"
+                      >
+                         <Languages size={16} />
+                         {autoTranslateRooms.includes(room.id) ? 'Stop Auto-translate' : 'Auto-translate'}
+                      </button>
                   </div>
               )}
             </div>
@@ -250,7 +489,7 @@ export const ChatList: React.FC<ChatListProps> = ({ rooms, activeRoom, onSelectR
                             </div>
                         ) : (
                             currentRoomOnlineUsers.map(user => (
-                                <div key={user.username} className="flex items-center gap-3 px-4 py-2 hover:bg-zinc-900 rounded-lg transition-colors cursor-default group">
+                                <div key={user.userId} className="flex items-center gap-3 px-4 py-2 hover:bg-zinc-900 rounded-lg transition-colors cursor-default group">
                                     <div className="relative">
                                         <img src={`https://picsum.photos/seed/${user.username}/100/100`} alt={user.username} className="w-8 h-8 rounded-full bg-zinc-800 object-cover" />
                                         <div className="absolute bottom-0 right-0 w-2.5 h-2.5 bg-green-500 border-2 border-black rounded-full"></div>
@@ -1,25 +1,86 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, ChatRoom, RoomType, UserProfile } from '../types';
-import { Image, Heart, Mic, Play, Pause, X, Send, Trash2, Reply, Ban, Copy, Languages, CheckCheck, User as UserIcon, Eye, Search, SkipForward, Loader2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+import { Message, ChatRoom, RoomType, UserProfile, MatchPreference, ImageAttachment, AudioAttachment, ReportReason } from '../types';
+import { Image, Heart, Mic, Play, Pause, X, Send, Trash2, Reply, Ban, Copy, Languages, CheckCheck, User as UserIcon, Eye, Search, SkipForward, Loader2, Globe, MapPin, Flag, ShieldAlert, Timer } from 'lucide-react';
 import { ThemeBackground } from './ThemeBackground';
 import { COUNTRY_CODES } from '../data/locations';
+import { SearchQuery, SearchResult, tokenize } from '../services/search';
+import { MENTION_PATTERN, MentionCandidate, mentionsUser } from '../services/mentions';
+import { REPORT_REASONS } from '../services/moderation';
+import { SLOW_MODE_OPTIONS, SendLimitError } from '../services/sendLimits';
+import { READ_RECEIPT_CAP, receiptsFull } from '../services/messages';
+import {
+  MIN_VOICE_DURATION_MS,
+  VoiceRecorder,
+  VoiceRecording,
+  startVoiceRecording,
+  voiceRecordingSupported,
+} from '../services/recorder';
 
 interface ChatWindowProps {
   room: ChatRoom;
-  onSendMessage: (text: string, replyTo?: Message['replyTo']) => void; // Simplified for text-only
+  senderName: (msg: Message) => string; // Resolved from the sender's uid
+  onSendMessage: (text: string, replyTo?: Message['replyTo']) => Promise<void>; // Rejects with a reason when moderation blocks it
+  onSendImage: (file: File, replyTo?: Message['replyTo']) => Promise<void>; // Rejects with a user-facing message
+  onSendVoice: (recording: VoiceRecording, replyTo?: Message['replyTo']) => Promise<void>; // Same
+  onLoadMessage: (messageId: string) => Promise<boolean>; // Loads older history until the message is present
+  onLoadOlder: () => Promise<number>; // Next page of history; resolves to messages added
+  onSearch: (query: SearchQuery) => Promise<SearchResult[]>;
+  onOpenSearchResult: (result: SearchResult) => void; // Switches rooms if needed, then sets jumpToMessageId
+  jumpToMessageId: string | null;
+  onJumpHandled: () => void;
   onDeleteMessage: (messageId: string) => void;
   onDeleteForYou: (messageId: string) => void;
-  onBlockUser: (username: string) => void;
+  onBlockUser: (uid: string, username: string) => void;
+  onReport: (report: ReportTarget & { reason: ReportReason; details: string }) => Promise<void>;
+  suspendedUntil: number | null; // Sending is disabled while suspended
+  sendReadyAt: number; // Earliest next send under rate limits and slow mode; 0 = now
+  slowModeSec: number; // This room's slow mode, 0 = off
+  canSetSlowMode: boolean; // Moderators, in group rooms
+  onSetSlowMode: (seconds: number) => Promise<void>;
   onTranslate: (messageId: string, text: string) => void;
-  onSkip: () => void;
-  blockedUsers: string[];
+  onSkip: () => void; // Also starts a fresh search when not connected
+  onCancelSearch: () => void;
+  matchPreference: MatchPreference;
+  onChangeMatchPreference: (preference: MatchPreference) => void;
+  blockedUids: string[];
+  hiddenMessageIds: string[]; // Deleted for this user only
   onBack: () => void;
   currentUser: string;
+  currentUserId: string | null;
+  onMarkRead: (messageIds: string[]) => void; // Batched as messages scroll into view
+  onReact: (messageId: string, emoji: string | null) => void; // null removes my reaction
+  mentionCandidates: MentionCandidate[]; // Online in this room; feeds @ autocomplete
+  typingUsers: string[]; // Others composing in this room
+  onTyping: () => void; // Throttled by the caller
   userCountry: string;
   userState: string;
   isWsConnected: boolean; // Indicates if WebSocket is active
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Read receipts are flushed in batches rather than one write per message
+const READ_FLUSH_MS = 1000;
+
+// Dragging the held mic this far left discards the recording
+const SLIDE_CANCEL_PX = 100;
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+const DOUBLE_TAP_MS = 300;
+const MENTION_SUGGESTIONS = 6;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export interface ReportTarget {
+  uid: string;
+  username: string;
+  messageId: string | null; // null reports the user rather than one message
+}
+
 interface ContextMenuState {
   visible: boolean;
   x: number;
@@ -27,60 +88,358 @@ interface ContextMenuState {
   message: Message | null;
 }
 
+// WebM from MediaRecorder often reports an infinite duration, so progress is
+// measured against the duration recorded on the attachment.
+const AudioPlayer: React.FC<{ attachment: AudioAttachment; isMe: boolean }> = ({ attachment, isMe }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [progress, setProgress] = useState(0); // 0..1
+  const [rate, setRate] = useState(1);
+  const durationSec = attachment.durationMs / 1000;
+
+  const togglePlay = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => setPlaying(false));
+    else audio.pause();
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const audio = audioRef.current;
+    if (!audio) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    audio.currentTime = fraction * durationSec;
+    setProgress(fraction);
+  };
+
+  const cycleRate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+    setRate(next);
+    if (audioRef.current) audioRef.current.playbackRate = next;
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-60 max-w-full">
+      <audio
+        ref={audioRef}
+        src={attachment.url}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => { setPlaying(false); setProgress(0); }}
+        onTimeUpdate={(e) => setProgress(Math.min(1, e.currentTarget.currentTime / durationSec))}
+      />
+      <button onClick={togglePlay} className="flex-shrink-0 hover:opacity-80">
+        {playing ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
+      </button>
+      <div onClick={seek} className="flex-1 flex items-center gap-[2px] h-8 cursor-pointer">
+        {attachment.waveform.map((level, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-full ${i / attachment.waveform.length < progress ? (isMe ? 'bg-white' : 'bg-[#3797f0]') : 'bg-white/40'}`}
+            style={{ height: `${Math.max(12, level * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-[11px] tabular-nums opacity-80 w-8 text-right">
+        {formatDuration(playing || progress > 0 ? progress * attachment.durationMs : attachment.durationMs)}
+      </span>
+      <button onClick={cycleRate} className="text-[11px] font-semibold px-1.5 py-0.5 rounded-full bg-black/25 hover:bg-black/40">
+        {rate}x
+      </button>
+    </div>
+  );
+};
+
 export const ChatWindow: React.FC<ChatWindowProps> = ({ 
   room, 
+  senderName,
   onSendMessage, 
+  onSendImage,
+  onSendVoice,
+  onLoadMessage,
+  onLoadOlder,
+  onSearch,
+  onOpenSearchResult,
+  jumpToMessageId,
+  onJumpHandled,
   onDeleteMessage, 
   onDeleteForYou, 
   onBlockUser,
+  onReport,
+  suspendedUntil,
+  sendReadyAt,
+  slowModeSec,
+  canSetSlowMode,
+  onSetSlowMode,
   onTranslate,
   onSkip,
-  blockedUsers,
+  onCancelSearch,
+  matchPreference,
+  onChangeMatchPreference,
+  blockedUids,
+  hiddenMessageIds,
   onBack, 
   currentUser,
+  currentUserId,
+  onMarkRead,
+  onReact,
+  mentionCandidates,
+  typingUsers,
+  onTyping,
   userCountry,
   userState,
   isWsConnected
 }) => {
   const [inputText, setInputText] = useState('');
-  // Removed isRecording, mediaRecorder states
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingMs, setRecordingMs] = useState(0);
+  const [slideOffset, setSlideOffset] = useState(0);
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  const holdActive = useRef(false);
+  const recordStartX = useRef(0);
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({ visible: false, x: 0, y: 0, message: null });
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
-  const [showReadInfo, setShowReadInfo] = useState<Message | null>(null); // Still supported for BroadcastChannel rooms
+  const [uploading, setUploading] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState(0); // From a send the limits turned back
+  const [now, setNow] = useState(Date.now());
+  const [showSlowModeMenu, setShowSlowModeMenu] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [lightboxImage, setLightboxImage] = useState<ImageAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showReadInfo, setShowReadInfo] = useState<Message | null>(null);
+  const [showReactions, setShowReactions] = useState<Message | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [reportReason, setReportReason] = useState<ReportReason | null>(null);
+  const [reportDetails, setReportDetails] = useState('');
+  const [reportStatus, setReportStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+  const [reactionFilter, setReactionFilter] = useState<string | null>(null);
+  const [heartBurstId, setHeartBurstId] = useState<string | null>(null);
+  const lastTap = useRef<{ id: string; at: number; prevReply: Message | null } | null>(null);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchAllRooms, setSearchAllRooms] = useState(false);
+  const [searchSender, setSearchSender] = useState('');
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const prependAnchor = useRef<{ height: number; top: number } | null>(null);
+  const messageRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const readObserver = useRef<IntersectionObserver | null>(null);
+  const pendingReads = useRef(new Set<string>());
+  const onMarkReadRef = useRef(onMarkRead);
+  onMarkReadRef.current = onMarkRead;
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Determine if input should be disabled
-  const isInputDisabled = !isWsConnected || (room.id === RoomType.ONE_ON_ONE && !room.connectedPartner);
+  const isInputDisabled = !isWsConnected || !!suspendedUntil || (room.id === RoomType.ONE_ON_ONE && !room.connectedPartner);
+
+  // Sending waits out rate limits and slow mode; typing doesn't
+  const cooldownUntil = Math.max(sendReadyAt, retryAt);
+  const cooldownSeconds = cooldownUntil > now ? Math.ceil((cooldownUntil - now) / 1000) : 0;
 
-  // Reset search when room changes
   useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const isBlockedSender = (msg: Message) => !!msg.senderUid && blockedUids.includes(msg.senderUid);
+
+  const closeSearch = () => {
     setIsSearchOpen(false);
     setSearchQuery('');
+    setSearchSender('');
+    setSearchFrom('');
+    setSearchTo('');
+    setSearchResults(null);
+  };
+
+  // Reset search when room changes
+  useEffect(() => {
+    closeSearch();
   }, [room.id]);
 
-  // Filter messages based on blocked users and search query
-  const visibleMessages = room.messages.filter(msg => {
-    if (blockedUsers.includes(msg.sender)) return false;
-    if (searchQuery && msg.text) {
-       return msg.text.toLowerCase().includes(searchQuery.toLowerCase());
+  // Debounced search; results can come from any of the user's rooms
+  useEffect(() => {
+    if (!isSearchOpen || (!searchQuery.trim() && !searchSender.trim())) {
+      setSearchResults(null);
+      return;
     }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearchLoading(true);
+      try {
+        const results = await onSearch({
+          text: searchQuery,
+          roomTypes: searchAllRooms ? [RoomType.WORLD, RoomType.COUNTRY, RoomType.STATE, RoomType.ONE_ON_ONE] : [room.id],
+          sender: searchSender.trim() || undefined,
+          from: searchFrom ? new Date(`${searchFrom}T00:00:00`).getTime() : undefined,
+          to: searchTo ? new Date(`${searchTo}T23:59:59.999`).getTime() : undefined,
+        });
+        if (!cancelled) setSearchResults(results.filter(r => !isBlockedSender(r.message) && !hiddenMessageIds.includes(r.message.id)));
+      } catch (err) {
+        console.error('Search error', err);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setSearchLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isSearchOpen, searchQuery, searchAllRooms, searchSender, searchFrom, searchTo, room.id]);
+
+  // Filter messages based on blocked users and "delete for you"
+  const visibleMessages = room.messages.filter(msg => {
+    if (isBlockedSender(msg)) return false;
+    if (hiddenMessageIds.includes(msg.id)) return false;
     return true;
   });
 
   const scrollToBottom = () => {
-    if (!isSearchOpen) {
+    if (!isSearchOpen && !jumpTarget) {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
   };
 
+  // Only follow the bottom when a newer message arrives, not when history is
+  // prepended above
+  const lastMessageId = room.messages[room.messages.length - 1]?.id;
+
   useEffect(() => {
     scrollToBottom();
-  }, [room.messages.length, replyingTo]); 
+  }, [lastMessageId, replyingTo]); 
+
+  // Keep the viewport on the same message after older history is prepended
+  useLayoutEffect(() => {
+    const anchor = prependAnchor.current;
+    const el = scrollContainerRef.current;
+    if (!anchor || !el) return;
+    el.scrollTop = el.scrollHeight - anchor.height + anchor.top;
+    prependAnchor.current = null;
+  }, [room.messages]);
+
+  const handleScroll = async () => {
+    const el = scrollContainerRef.current;
+    if (!el || el.scrollTop > 80 || !room.hasMoreHistory || isLoadingOlder) return;
+    prependAnchor.current = { height: el.scrollHeight, top: el.scrollTop };
+    setIsLoadingOlder(true);
+    const added = await onLoadOlder();
+    if (added === 0) prependAnchor.current = null;
+    setIsLoadingOlder(false);
+  };
+
+  // Scroll to a quoted message once it is rendered, then flash it
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const el = messageRefs.current[jumpTarget];
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(jumpTarget);
+    setJumpTarget(null);
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpTarget, room.messages]);
+
+  const jumpToMessage = async (messageId: string) => {
+    if (!room.messages.some(m => m.id === messageId)) {
+      const found = await onLoadMessage(messageId);
+      if (!found) return;
+    }
+    closeSearch();
+    setJumpTarget(messageId);
+  };
+
+  // Search hits in another room arrive here after App switches rooms
+  useEffect(() => {
+    if (!jumpToMessageId) return;
+    onJumpHandled();
+    jumpToMessage(jumpToMessageId);
+  }, [jumpToMessageId, room.id]);
+
+  const openSearchResult = (result: SearchResult) => {
+    if (result.roomType === room.id) jumpToMessage(result.message.id);
+    else onOpenSearchResult(result);
+  };
+
+  const renderHighlighted = (text: string) => {
+    const tokens = tokenize(searchQuery).map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (tokens.length === 0) return text;
+    const regex = new RegExp(`(${tokens.join('|')})`, 'gi');
+    return text.split(regex).map((part, i) =>
+      i % 2 === 1 ? <mark key={i} className="bg-yellow-400/40 text-white rounded px-0.5">{part}</mark> : part
+    );
+  };
+
+  const roomLabel = (type: RoomType) =>
+    type === RoomType.WORLD ? 'World Chat' : type === RoomType.COUNTRY ? userCountry : type === RoomType.STATE ? userState : 'One on One';
+
+  // Mark messages read once they are actually on screen, batched per flush
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      if (document.visibilityState !== 'visible') {
+        document.addEventListener('visibilitychange', flush, { once: true });
+        return;
+      }
+      const ids = Array.from(pendingReads.current);
+      pendingReads.current.clear();
+      if (ids.length) onMarkReadRef.current(ids);
+    };
+
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.messageId;
+        if (!entry.isIntersecting || !id) return;
+        pendingReads.current.add(id);
+        observer.unobserve(entry.target);
+      });
+      if (pendingReads.current.size && !timer) timer = setTimeout(flush, READ_FLUSH_MS);
+    }, { threshold: 0.6 });
+    readObserver.current = observer;
+
+    return () => {
+      observer.disconnect();
+      if (timer) clearTimeout(timer);
+      document.removeEventListener('visibilitychange', flush);
+      pendingReads.current.clear();
+    };
+  }, [room.id]);
+
+  useEffect(() => {
+    const observer = readObserver.current;
+    if (!observer || !currentUserId) return;
+    visibleMessages.forEach(msg => {
+      if (msg.isMe || msg.system || msg.readReceipts?.[currentUserId] || receiptsFull(msg)) return;
+      const el = messageRefs.current[msg.id];
+      if (el) observer.observe(el);
+    });
+  }, [room.messages, currentUserId, hiddenMessageIds, blockedUids]);
 
   // Focus input when replying
   useEffect(() => {
@@ -100,28 +459,225 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     return () => window.removeEventListener('click', handleClick);
   }, [contextMenu.visible]);
 
+  const getReplyData = () => replyingTo ? {
+      id: replyingTo.id,
+      sender: senderName(replyingTo),
+      text: replyingTo.text || '[Message]'
+  } : undefined;
+
+  // A cooldown shows as a countdown in the input bar rather than an error
+  const showSendError = (err: unknown, fallback: string) => {
+    if (err instanceof SendLimitError && err.retryAt > Date.now()) {
+      setRetryAt(err.retryAt);
+      return;
+    }
+    setSendError(err instanceof Error ? err.message : fallback);
+  };
+
   const handleSendText = () => {
-    if (inputText.trim()) {
-      const replyData = replyingTo ? {
-          id: replyingTo.id,
-          sender: replyingTo.sender,
-          text: replyingTo.text || '[Message]' // Changed from Voice Message
-      } : undefined;
-
-      onSendMessage(inputText, replyData); // Simplified call
+    if (inputText.trim() && cooldownUntil <= Date.now()) {
+      const text = inputText;
+      const reply = replyingTo;
+      setSendError(null);
+      onSendMessage(text, getReplyData()).catch(err => {
+        // Give the text back so it can be edited, unless they've started typing again
+        showSendError(err, 'Could not send message');
+        setInputText(prev => prev || text);
+        setReplyingTo(prev => prev || reply);
+      });
       setInputText('');
+      setMention(null);
+      setReplyingTo(null);
+    }
+  };
+
+  // --- Image Attachments (picker, paste, drag and drop) ---
+  const sendImageFile = async (file: File) => {
+    if (isInputDisabled || uploading) return;
+    setSendError(null);
+    setUploading(true);
+    try {
+      await onSendImage(file, getReplyData());
       setReplyingTo(null);
+    } catch (err) {
+      showSendError(err, 'Could not send image');
+    } finally {
+      setUploading(false);
     }
   };
 
+  const firstImage = (files: FileList | null) =>
+    Array.from(files || []).find(f => f.type.startsWith('image/'));
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = firstImage(e.clipboardData.files);
+    if (!file) return;
+    e.preventDefault();
+    sendImageFile(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (isInputDisabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = firstImage(e.dataTransfer.files);
+    if (file) sendImageFile(file);
+  };
+
+  useEffect(() => {
+    setSendError(null);
+    setLightboxImage(null);
+    setShowReactions(null);
+  }, [room.id]);
+
+  useEffect(() => {
+    if (!lightboxImage) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setLightboxImage(null); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [lightboxImage]);
+
+  // --- @mention Autocomplete ---
+  const mentionSuggestions = mention
+    ? mentionCandidates
+        .filter(c => c.username.toLowerCase().includes(mention.query.toLowerCase()))
+        .sort((a, b) =>
+          Number(!a.username.toLowerCase().startsWith(mention.query.toLowerCase())) -
+          Number(!b.username.toLowerCase().startsWith(mention.query.toLowerCase()))
+        )
+        .slice(0, MENTION_SUGGESTIONS)
+    : [];
+
+  // Open the popover while the caret sits right after "@partial"
+  const updateMention = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+    setMention(match ? { query: match[1], start: caret - match[1].length - 1 } : null);
+    setMentionIndex(0);
+  };
+
+  const selectMention = (candidate: MentionCandidate) => {
+    if (!mention) return;
+    const caret = inputRef.current?.selectionStart ?? inputText.length;
+    const inserted = `@${candidate.username} `;
+    setInputText(inputText.slice(0, mention.start) + inserted + inputText.slice(caret));
+    setMention(null);
+    const nextCaret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey && !isInputDisabled) {
       e.preventDefault();
       handleSendText();
     }
   };
 
-  // Removed startRecording, cancelRecording, sendVoiceMessage
+  // --- Voice Messages (hold the mic, slide left to cancel) ---
+  const finishRecording = async (send: boolean) => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setSlideOffset(0);
+    if (!send) {
+      recorder.cancel();
+      return;
+    }
+
+    const recording = await recorder.stop();
+    if (recording.durationMs < MIN_VOICE_DURATION_MS) return;
+    setSendError(null);
+    setUploading(true);
+    try {
+      await onSendVoice(recording, getReplyData());
+      setReplyingTo(null);
+    } catch (err) {
+      showSendError(err, 'Could not send voice message');
+    } finally {
+      setUploading(false);
+    }
+  };
+  // The max-duration timer fires long after the render that started it
+  const finishRecordingRef = useRef(finishRecording);
+  finishRecordingRef.current = finishRecording;
+
+  const handleMicDown = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (isInputDisabled || uploading || recorderRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    holdActive.current = true;
+    recordStartX.current = e.clientX;
+    setSendError(null);
+
+    let recorder: VoiceRecorder;
+    try {
+      recorder = await startVoiceRecording(() => finishRecordingRef.current(true));
+    } catch {
+      holdActive.current = false;
+      setSendError('Microphone access was denied');
+      return;
+    }
+    // Released while the permission prompt was up
+    if (!holdActive.current) {
+      recorder.cancel();
+      return;
+    }
+    recorderRef.current = recorder;
+    setRecordingMs(0);
+    setIsRecording(true);
+  };
+
+  const handleMicMove = (e: React.PointerEvent) => {
+    if (!recorderRef.current) return;
+    const offset = Math.min(0, e.clientX - recordStartX.current);
+    setSlideOffset(offset);
+    if (offset < -SLIDE_CANCEL_PX) finishRecording(false);
+  };
+
+  const handleMicUp = (send: boolean) => {
+    holdActive.current = false;
+    finishRecording(send);
+  };
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      if (recorderRef.current) setRecordingMs(Date.now() - recorderRef.current.startedAt);
+    }, 200);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Never leave the microphone open when switching rooms or unmounting
+  useEffect(() => () => {
+    holdActive.current = false;
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    setIsRecording(false);
+  }, [room.id]);
 
   // --- Context Menu Handlers ---
   const handleContextMenu = (e: React.MouseEvent, msg: Message) => {
@@ -145,6 +701,33 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   };
 
+  // --- Reporting ---
+  const openReport = (target: ReportTarget) => {
+      setReportTarget(target);
+      setReportReason(null);
+      setReportDetails('');
+      setReportStatus('idle');
+      setContextMenu({ ...contextMenu, visible: false });
+  };
+
+  const reportFromMenu = (wholeUser: boolean) => {
+      const msg = contextMenu.message;
+      if (!msg?.senderUid) return;
+      openReport({ uid: msg.senderUid, username: senderName(msg), messageId: wholeUser ? null : msg.id });
+  };
+
+  const handleSubmitReport = async () => {
+      if (!reportTarget || !reportReason) return;
+      setReportStatus('sending');
+      try {
+          await onReport({ ...reportTarget, reason: reportReason, details: reportDetails.trim() });
+          setReportStatus('sent');
+      } catch (err) {
+          console.error('Report error', err);
+          setReportStatus('failed');
+      }
+  };
+
   const handleUnsend = () => {
     if (contextMenu.message) {
         onDeleteMessage(contextMenu.message.id);
@@ -161,7 +744,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
 
   const handleBlock = () => {
     if (contextMenu.message) {
-        onBlockUser(contextMenu.message.sender);
+        if (contextMenu.message.senderUid) onBlockUser(contextMenu.message.senderUid, senderName(contextMenu.message));
         setContextMenu({ ...contextMenu, visible: false });
     }
   };
@@ -187,21 +770,112 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
       }
   };
 
+  // A single tap replies; a second tap on the same bubble hearts it instead
   const handleMessageClick = (msg: Message) => {
       if (window.getSelection()?.toString()) return;
+      if (msg.unsent) return;
+      const now = Date.now();
+      const prev = lastTap.current;
+      if (prev && prev.id === msg.id && now - prev.at < DOUBLE_TAP_MS) {
+          lastTap.current = null;
+          setReplyingTo(prev.prevReply);
+          onReact(msg.id, '❤️');
+          setHeartBurstId(msg.id);
+          setTimeout(() => setHeartBurstId(id => (id === msg.id ? null : id)), 700);
+          return;
+      }
+      lastTap.current = { id: msg.id, at: now, prevReply: replyingTo };
       setReplyingTo(msg);
   };
 
+  // --- Reactions ---
+  const getReactions = (msg: Message) => Object.entries(msg.reactions || {});
+
+  // Demo mode has no uid, so fall back to the username there
+  const isMyReaction = ([uid, reaction]: [string, { username: string }]) =>
+    currentUserId ? uid === currentUserId : reaction.username === currentUser;
+
+  const myReaction = (msg: Message) => getReactions(msg).find(isMyReaction)?.[1].emoji;
+
+  // Emoji with counts, most used first
+  const reactionCounts = (msg: Message) => {
+    const counts = new Map<string, number>();
+    getReactions(msg).forEach(([, r]) => counts.set(r.emoji, (counts.get(r.emoji) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  };
+
+  const handlePickReaction = (emoji: string) => {
+      if (contextMenu.message) {
+          onReact(contextMenu.message.id, myReaction(contextMenu.message) === emoji ? null : emoji);
+          setContextMenu({ ...contextMenu, visible: false });
+      }
+  };
+
+  const openReactions = (msg: Message) => {
+      setReactionFilter(null);
+      setShowReactions(msg);
+  };
+
+  // Everyone but the sender, earliest first
+  const getReaders = (msg: Message) =>
+    Object.entries(msg.readReceipts || {})
+      .filter(([uid]) => uid !== msg.senderUid)
+      .map(([, receipt]) => receipt)
+      .sort((a, b) => a.at - b.at);
+
+  const readInfoMessage = showReadInfo ? room.messages.find(m => m.id === showReadInfo.id) || showReadInfo : null;
+  const readInfoReaders = readInfoMessage ? getReaders(readInfoMessage) : [];
+
+  // Receipts stop at READ_RECEIPT_CAP, so a full message has been seen by at least that many
+  const seenCount = (msg: Message) => `${getReaders(msg).length}${receiptsFull(msg) ? '+' : ''}`;
+
+  const reactionsMessage = showReactions ? room.messages.find(m => m.id === showReactions.id) || showReactions : null;
+  const reactionsList = reactionsMessage
+    ? getReactions(reactionsMessage).filter(([, r]) => !reactionFilter || r.emoji === reactionFilter)
+    : [];
+
   const getAvatar = (seed: string) => `https://picsum.photos/seed/${seed}/200/200`;
 
-  // Removed AudioPlayer component
+  const matchOptions = [
+    { value: MatchPreference.ANYWHERE, label: 'Anywhere', icon: <Globe size={16} /> },
+    { value: MatchPreference.COUNTRY, label: userCountry, icon: <Flag size={16} /> },
+    { value: MatchPreference.STATE, label: userState, icon: <MapPin size={16} /> },
+  ];
+
+  const renderMatchPreferencePicker = () => (
+    <div className="flex flex-col items-center gap-4 py-6">
+      <p className="text-zinc-400 text-sm drop-shadow-md">Who do you want to meet?</p>
+      <div className="flex gap-2">
+        {matchOptions.map(opt => (
+          <button
+            key={opt.value}
+            onClick={() => onChangeMatchPreference(opt.value)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm border transition-colors ${
+              matchPreference === opt.value
+                ? 'bg-pink-500/20 border-pink-500 text-white'
+                : 'bg-black/40 border-white/10 text-zinc-400 hover:text-white hover:border-white/30'
+            }`}
+          >
+            {opt.icon} {opt.label}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onSkip}
+        disabled={!isWsConnected}
+        className="mt-2 px-6 py-2 rounded-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold text-sm shadow-lg hover:opacity-90 disabled:opacity-50"
+      >
+        Find a partner
+      </button>
+    </div>
+  );
 
+  // Every `@username` is highlighted, my own name more strongly
   const renderTextWithMentions = (text: string) => {
-    const mentionRegex = /(@\w+)/g;
-    const parts = text.split(mentionRegex);
+    const parts = text.split(new RegExp(`(${MENTION_PATTERN.source})`));
     return parts.map((part, index) => {
-      if (part.match(mentionRegex)) {
-        const isMe = part === `@${currentUser}`;
+      if (index % 2 === 1) {
+        const isMe = part.toLowerCase() === `@${currentUser.toLowerCase()}`;
         return (
           <span key={index} className={isMe ? "bg-yellow-500/30 text-yellow-200 px-1 rounded font-semibold" : "text-blue-300 font-medium"}>
             {part}
@@ -213,7 +887,17 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   };
 
   return (
-    <div className="flex flex-col h-full w-full bg-black relative">
+    <div
+      className="flex flex-col h-full w-full bg-black relative"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFile && (
+        <div className="absolute inset-0 z-40 bg-black/70 border-2 border-dashed border-[#3797f0] rounded-lg flex items-center justify-center pointer-events-none">
+          <span className="text-white font-semibold flex items-center gap-2"><Image size={20} /> Drop image to send</span>
+        </div>
+      )}
       <ThemeBackground type={room.id} userCountry={userCountry} userState={userState} />
       
       {/* Header */}
@@ -229,7 +913,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
-              <button onClick={() => { setIsSearchOpen(false); setSearchQuery(''); }} className="text-zinc-400 hover:text-white">
+              <button onClick={closeSearch} className="text-zinc-400 hover:text-white">
                  <X size={24} />
               </button>
            </div>
@@ -262,9 +946,20 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                    </h3>
                    <p className="text-xs text-zinc-400 flex items-center gap-1">
                       {room.id === RoomType.ONE_ON_ONE ? (
-                          room.connectedPartner ? <span className="text-green-400">● Connected</span> : <span className="text-zinc-500">Searching...</span>
+                          room.connectedPartner ? (
+                            typingUsers.length > 0
+                              ? <span className="text-pink-400 italic">stranger is typing…</span>
+                              : <span className="text-green-400">● Connected</span>
+                          ) : <span className="text-zinc-500">Searching...</span>
                       ) : (
-                          room.id === RoomType.WORLD ? 'Global Chat' : room.id === RoomType.COUNTRY ? 'National Group' : 'Local Group'
+                          <>
+                            {room.id === RoomType.WORLD ? 'Global Chat' : room.id === RoomType.COUNTRY ? 'National Group' : 'Local Group'}
+                            {slowModeSec > 0 && (
+                              <span className="text-amber-400 flex items-center gap-0.5 ml-1">
+                                <Timer size={11} /> Slow mode {slowModeSec}s
+                              </span>
+                            )}
+                          </>
                       )}
                    </p>
                  </div>
@@ -280,6 +975,46 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                    <SkipForward className="w-4 h-4" fill="currentColor" /> SKIP
                  </button>
                )}
+               {room.id === RoomType.ONE_ON_ONE && room.connectedPartner?.userId && (
+                 <button
+                   onClick={() => openReport({ uid: room.connectedPartner!.userId!, username: room.connectedPartner!.username, messageId: null })}
+                   className="hover:text-red-400 transition-colors"
+                   title="Report user"
+                 >
+                   <ShieldAlert className="w-5 h-5" />
+                 </button>
+               )}
+               {canSetSlowMode && (
+                 <div className="relative">
+                   <button
+                     onClick={() => setShowSlowModeMenu(!showSlowModeMenu)}
+                     className={`transition-colors ${slowModeSec > 0 ? 'text-amber-400' : 'hover:text-zinc-300'}`}
+                     title="Slow mode"
+                   >
+                     <Timer className="w-6 h-6" />
+                   </button>
+                   {showSlowModeMenu && (
+                     <div className="absolute right-0 top-9 z-20 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl py-1 min-w-[140px]">
+                       <p className="px-4 py-1.5 text-xs text-zinc-500">Slow mode</p>
+                       {SLOW_MODE_OPTIONS.map(opt => (
+                         <button
+                           key={opt.seconds}
+                           onClick={() => {
+                             setShowSlowModeMenu(false);
+                             onSetSlowMode(opt.seconds).catch(err => {
+                               console.error('Slow mode error', err);
+                               setSendError('Could not change slow mode');
+                             });
+                           }}
+                           className={`w-full text-left px-4 py-2 text-sm hover:bg-zinc-700 ${opt.seconds === slowModeSec ? 'text-amber-400' : 'text-white'}`}
+                         >
+                           {opt.label}
+                         </button>
+                       ))}
+                     </div>
+                   )}
+                 </div>
+               )}
                <button onClick={() => setIsSearchOpen(true)} className="hover:text-zinc-300">
                   <Search className="w-6 h-6" />
                </button>
@@ -288,8 +1023,90 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         )}
       </div>
 
+      {/* Search Filters */}
+      {isSearchOpen && (
+        <div className="px-4 py-2 border-b border-white/10 bg-black/70 backdrop-blur-xl flex flex-wrap items-center gap-2 text-xs relative z-10">
+          <div className="flex rounded-full border border-white/10 overflow-hidden">
+            <button
+              onClick={() => setSearchAllRooms(false)}
+              className={`px-3 py-1 ${!searchAllRooms ? 'bg-white/15 text-white' : 'text-zinc-400 hover:text-white'}`}
+            >
+              This chat
+            </button>
+            <button
+              onClick={() => setSearchAllRooms(true)}
+              className={`px-3 py-1 ${searchAllRooms ? 'bg-white/15 text-white' : 'text-zinc-400 hover:text-white'}`}
+            >
+              All chats
+            </button>
+          </div>
+          <input
+            type="text"
+            placeholder="From user"
+            value={searchSender}
+            onChange={(e) => setSearchSender(e.target.value)}
+            className="bg-zinc-900 border border-white/10 rounded-full px-3 py-1 text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500 w-28"
+          />
+          <input
+            type="date"
+            value={searchFrom}
+            onChange={(e) => setSearchFrom(e.target.value)}
+            className="bg-zinc-900 border border-white/10 rounded-full px-3 py-1 text-zinc-300 focus:outline-none focus:border-zinc-500"
+            title="From date"
+          />
+          <input
+            type="date"
+            value={searchTo}
+            onChange={(e) => setSearchTo(e.target.value)}
+            className="bg-zinc-900 border border-white/10 rounded-full px-3 py-1 text-zinc-300 focus:outline-none focus:border-zinc-500"
+            title="To date"
+          />
+        </div>
+      )}
+
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar relative z-0">
+      <div className="flex-1 relative min-h-0 flex flex-col">
+      {/* Search Results */}
+      {isSearchOpen && (searchResults || searchLoading) && (
+        <div className="absolute inset-0 z-20 bg-black/90 backdrop-blur-md overflow-y-auto no-scrollbar">
+          {searchLoading && !searchResults ? (
+            <div className="flex justify-center py-10 text-zinc-500">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : searchResults && searchResults.length === 0 ? (
+            <p className="text-center text-zinc-500 py-10">No messages found matching "{searchQuery || searchSender}"</p>
+          ) : (
+            searchResults?.map(result => (
+              <button
+                key={`${result.roomType}_${result.message.id}`}
+                onClick={() => openSearchResult(result)}
+                className="w-full text-left px-5 py-3 border-b border-white/5 hover:bg-white/5 flex gap-3"
+              >
+                <img src={getAvatar(senderName(result.message))} alt={senderName(result.message)} className="w-8 h-8 rounded-full bg-zinc-800 object-cover flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-semibold text-white truncate">{senderName(result.message)}</span>
+                    <span className="text-zinc-500 flex-shrink-0">
+                      {searchAllRooms && <span className="mr-2">{roomLabel(result.roomType)}</span>}
+                      {new Date(result.message.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-zinc-300 line-clamp-2">{renderHighlighted(result.message.text)}</p>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4 no-scrollbar relative z-0">
+        {/* Out of flow so it doesn't shift the scroll anchor */}
+        {isLoadingOlder && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 text-zinc-500">
+                <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+        )}
+
         {room.id === RoomType.ONE_ON_ONE && (room.isSearching || !isWsConnected) && (
             <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-black/50 backdrop-blur-sm text-white">
                 <div className="relative">
@@ -301,14 +1118,24 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 <h3 className="mt-6 text-xl font-light tracking-wider">
                   {!isWsConnected ? "CONNECTING TO SERVER..." : "SEARCHING FOR PARTNER"}
                 </h3>
-                <p className="text-zinc-500 text-sm mt-2">Connecting to random user...</p>
+                <p className="text-zinc-500 text-sm mt-2">
+                  {room.searchWidened ? 'Widening search…' : 'Connecting to random user...'}
+                </p>
+                {room.isSearching && (
+                  <button
+                    onClick={onCancelSearch}
+                    className="mt-6 px-5 py-2 rounded-full border border-white/20 text-sm text-zinc-300 hover:text-white hover:bg-white/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
             </div>
         )}
 
         {visibleMessages.length === 0 && !room.isSearching && (
           <div className="flex flex-col items-center justify-center h-full text-zinc-500 mt-10">
-            {searchQuery ? (
-               <p>No messages found matching "{searchQuery}"</p>
+            {room.id === RoomType.ONE_ON_ONE && !room.connectedPartner ? (
+                renderMatchPreferencePicker()
             ) : (
                 <>
                 <div className="w-24 h-24 rounded-full border-2 border-white/10 bg-white/5 flex items-center justify-center mb-4 backdrop-blur-md">
@@ -323,17 +1150,25 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         )}
 
         {visibleMessages.map((msg, index) => {
-          const showAvatar = !msg.isMe && (index === 0 || visibleMessages[index - 1].sender !== msg.sender);
+          if (msg.system) {
+            return (
+              <div key={msg.id} className="flex justify-center my-2">
+                <span className="text-xs text-zinc-400 bg-black/50 px-3 py-1 rounded-full backdrop-blur-sm">{msg.text}</span>
+              </div>
+            );
+          }
+
+          const showAvatar = !msg.isMe && (index === 0 || senderName(visibleMessages[index - 1]) !== senderName(msg));
           const timeString = new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
           return (
-            <div key={msg.id} className={`flex w-full ${msg.isMe ? 'justify-end' : 'justify-start'} mb-1`}>
+            <div key={msg.id} ref={el => { messageRefs.current[msg.id] = el; }} data-message-id={msg.id} className={`flex w-full ${msg.isMe ? 'justify-end' : 'justify-start'} mb-1`}>
               {!msg.isMe && (
                 <div className="w-8 flex-shrink-0 mr-2 flex items-end">
                    {showAvatar ? (
                      <img 
-                       src={getAvatar(msg.sender)} 
-                       alt={msg.sender} 
+                       src={getAvatar(senderName(msg))} 
+                       alt={senderName(msg)} 
                        className="w-8 h-8 rounded-full bg-zinc-800 border border-black object-cover" 
                      />
                    ) : <div className="w-8" />}
@@ -342,10 +1177,13 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
               
               <div className={`flex flex-col max-w-[70%] ${msg.isMe ? 'items-end' : 'items-start'}`}>
                  {!msg.isMe && showAvatar && (
-                    <span className="text-[10px] text-zinc-400 ml-1 mb-1 font-medium drop-shadow-md">{msg.sender}</span>
+                    <span className="text-[10px] text-zinc-400 ml-1 mb-1 font-medium drop-shadow-md">{senderName(msg)}</span>
                  )}
                  {msg.replyTo && (
-                    <div className={`mb-1 px-3 py-2 rounded-lg text-xs bg-black/60 border-l-2 ${msg.isMe ? 'border-blue-400' : 'border-zinc-500'} text-zinc-300 backdrop-blur-sm truncate max-w-full`}>
+                    <div
+                      onClick={(e) => { e.stopPropagation(); jumpToMessage(msg.replyTo!.id); }}
+                      className={`mb-1 px-3 py-2 rounded-lg text-xs bg-black/60 border-l-2 ${msg.isMe ? 'border-blue-400' : 'border-zinc-500'} text-zinc-300 backdrop-blur-sm truncate max-w-full cursor-pointer hover:bg-black/80`}
+                    >
                        <span className="font-bold block text-[10px] mb-0.5">{msg.replyTo.sender}</span>
                        {msg.replyTo.text}
                     </div>
@@ -356,11 +1194,13 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                   onTouchStart={(e) => handleTouchStart(e, msg)}
                   onTouchEnd={handleTouchEnd}
                   onTouchMove={handleTouchEnd} 
-                  className={`px-4 py-2 rounded-[22px] text-[15px] leading-snug break-words relative group cursor-pointer select-none transition-transform active:scale-95 shadow-lg backdrop-blur-sm ${
+                  className={`${msg.attachment?.kind === 'image' ? 'p-1' : 'px-4 py-2'} rounded-[22px] text-[15px] leading-snug break-words relative group cursor-pointer select-none transition-transform active:scale-95 shadow-lg backdrop-blur-sm ${
                     msg.isMe
                       ? 'bg-[#3797f0] text-white rounded-br-sm'
-                      : 'bg-[#262626]/80 text-white rounded-bl-sm border border-white/5'
-                  }`}
+                      : mentionsUser(msg, currentUserId, currentUser)
+                        ? 'bg-yellow-500/15 text-white rounded-bl-sm border border-yellow-400/60'
+                        : 'bg-[#262626]/80 text-white rounded-bl-sm border border-white/5'
+                  } ${highlightedId === msg.id ? 'ring-2 ring-yellow-400/80' : ''}`}
                 >
                   {/* Timestamp Tooltip */}
                   <div 
@@ -375,25 +1215,83 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                      </span>
                   </div>
 
+                  {heartBurstId === msg.id && (
+                    <Heart size={40} fill="#ef4444" className="absolute inset-0 m-auto text-red-500 animate-ping pointer-events-none z-10" />
+                  )}
+
                   {/* Text Message Content */}
-                  {msg.text && renderTextWithMentions(msg.text)}
+                  {msg.unsent ? (
+                    <span className="italic text-white/60">{msg.moderated ? 'Removed by a moderator' : 'Message unsent'}</span>
+                  ) : msg.attachment?.kind === 'image' ? (
+                    <img
+                      src={msg.attachment.thumbUrl}
+                      alt="Image"
+                      loading="lazy"
+                      onClick={(e) => { e.stopPropagation(); setLightboxImage(msg.attachment!); }}
+                      style={{ aspectRatio: `${msg.attachment.width} / ${msg.attachment.height}` }}
+                      className="block w-60 max-w-full max-h-80 object-cover rounded-[18px] bg-black/40 cursor-zoom-in"
+                    />
+                  ) : msg.attachment?.kind === 'audio' ? (
+                    <AudioPlayer attachment={msg.attachment} isMe={msg.isMe} />
+                  ) : (
+                    msg.text && renderTextWithMentions(msg.text)
+                  )}
                   {msg.translation && (
                     <div className="mt-2 pt-2 border-t border-white/20 text-xs italic opacity-90">
                         <span className="font-bold">Translated:</span> {msg.translation}
                     </div>
                   )}
+                  {msg.translationStatus === 'loading' && (
+                    <div className="mt-2 pt-2 border-t border-white/20 text-xs italic opacity-70 flex items-center gap-1">
+                        <Loader2 size={12} className="animate-spin" /> Translating…
+                    </div>
+                  )}
+                  {msg.translationStatus === 'failed' && (
+                    <div className="mt-2 pt-2 border-t border-white/20 text-xs italic text-red-300">
+                        Translation failed.{' '}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onTranslate(msg.id, msg.text); }}
+                          className="underline not-italic hover:text-white"
+                        >
+                          Retry
+                        </button>
+                    </div>
+                  )}
                 </div>
-                {msg.isMe && msg.readBy.length > 0 && (
+                {!msg.unsent && getReactions(msg).length > 0 && (
+                   <button
+                     onClick={(e) => { e.stopPropagation(); openReactions(msg); }}
+                     className={`-mt-2 z-10 flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-zinc-800 border border-black text-xs shadow ${msg.isMe ? 'mr-2' : 'ml-2'}`}
+                   >
+                     {reactionCounts(msg).map(([emoji, count]) => (
+                       <span key={emoji} className={`flex items-center gap-0.5 ${myReaction(msg) === emoji ? 'text-[#3797f0]' : 'text-zinc-300'}`}>
+                         {emoji}{count > 1 && <span className="text-[10px]">{count}</span>}
+                       </span>
+                     ))}
+                   </button>
+                )}
+                {msg.isMe && getReaders(msg).length > 0 && (
                    <span className="text-[10px] text-zinc-500 mr-2 mt-1 flex items-center gap-1">
-                      Seen <CheckCheck size={10} />
+                      {room.id === RoomType.ONE_ON_ONE ? 'Seen' : `Seen by ${seenCount(msg)}`} <CheckCheck size={10} />
                    </span>
                 )}
               </div>
             </div>
           );
         })}
+        {room.id === RoomType.ONE_ON_ONE && !room.connectedPartner && !room.isSearching && visibleMessages.length > 0 && renderMatchPreferencePicker()}
         <div ref={messagesEndRef} />
       </div>
+      </div>
+
+      {/* Typing Indicator (group rooms; one-on-one shows it in the header) */}
+      {room.id !== RoomType.ONE_ON_ONE && typingUsers.length > 0 && (
+        <div className="px-6 py-1 text-xs text-zinc-400 italic relative z-10 truncate">
+          {typingUsers.length > 3
+            ? 'Several people are typing…'
+            : `${typingUsers.join(', ')} ${typingUsers.length === 1 ? 'is' : 'are'} typing…`}
+        </div>
+      )}
 
       {/* Reply Preview Bar */}
       {replyingTo && (
@@ -401,7 +1299,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             <div className="flex items-center gap-3 overflow-hidden">
                 <Reply size={20} className="text-zinc-500 flex-shrink-0" />
                 <div className="flex flex-col text-sm truncate">
-                    <span className="text-[#3797f0] font-semibold">Replying to {replyingTo.sender}</span>
+                    <span className="text-[#3797f0] font-semibold">Replying to {senderName(replyingTo)}</span>
                     <span className="text-zinc-400 truncate text-xs">{replyingTo.text}</span>
                 </div>
             </div>
@@ -411,10 +1309,65 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         </div>
       )}
 
+      {cooldownSeconds > 0 && (inputText || retryAt > now) && !isInputDisabled && (
+        <div className="px-6 py-1 text-xs text-amber-400 relative z-10 flex items-center gap-1.5">
+          <Timer size={12} />
+          <span>
+            Slow down, try again in {cooldownSeconds}s
+            {slowModeSec > 0 && ` · slow mode is on (one message every ${slowModeSec}s)`}
+          </span>
+        </div>
+      )}
+
+      {sendError && (
+        <div className="px-6 py-1 text-xs text-red-400 relative z-10 flex items-center justify-between">
+          <span>{sendError}</span>
+          <button onClick={() => setSendError(null)} className="text-zinc-500 hover:text-white"><X size={14} /></button>
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="p-4 bg-black/80 backdrop-blur-md relative z-10">
+        {mentionSuggestions.length > 0 && (
+          <div className="absolute bottom-full left-4 right-4 mb-2 bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl overflow-hidden">
+            {mentionSuggestions.map((c, i) => (
+              <button
+                key={c.userId}
+                // Keep focus in the input so onBlur doesn't close us first
+                onMouseDown={(e) => { e.preventDefault(); selectMention(c); }}
+                className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm text-white ${i === mentionIndex ? 'bg-zinc-700' : 'hover:bg-zinc-800'}`}
+              >
+                <img src={getAvatar(c.username)} alt={c.username} className="w-6 h-6 rounded-full bg-zinc-800 object-cover" />
+                <span className="truncate">{c.username}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = firstImage(e.target.files);
+            e.target.value = '';
+            if (file) sendImageFile(file);
+          }}
+        />
         <div className={`flex items-center bg-[#262626] rounded-full px-2 py-1.5 border border-zinc-800 ${!isInputDisabled ? 'focus-within:border-zinc-600' : ''} transition-colors`}>
             <>
+              {isRecording ? (
+                <div className="flex-1 flex items-center gap-3 px-3 py-2 text-white select-none overflow-hidden">
+                  <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+                  <span className="text-sm tabular-nums">{formatDuration(recordingMs)}</span>
+                  <span
+                    className="ml-auto text-sm text-zinc-400 whitespace-nowrap"
+                    style={{ transform: `translateX(${slideOffset}px)`, opacity: 1 + slideOffset / SLIDE_CANCEL_PX }}
+                  >
+                    ‹ Slide to cancel
+                  </span>
+                </div>
+              ) : (
               <input
                 ref={inputRef}
                 type="text"
@@ -422,30 +1375,60 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 placeholder={
                   !isWsConnected 
                     ? "Connecting to server..." 
+                    : suspendedUntil
+                      ? `You're suspended until ${new Date(suspendedUntil).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
                     : room.id === RoomType.ONE_ON_ONE && room.isSearching
                       ? "Searching for partner..."
                       : room.id === RoomType.ONE_ON_ONE && !room.connectedPartner
-                        ? "Tap 'One on One' to start chat"
+                        ? "Tap 'Find a partner' to start chatting"
                         : "Message..."
                 }
                 value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
+                onChange={(e) => {
+                  setInputText(e.target.value);
+                  updateMention(e.target.value, e.target.selectionStart ?? e.target.value.length);
+                  if (e.target.value) onTyping();
+                }}
+                onBlur={() => setMention(null)}
                 onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
                 disabled={isInputDisabled}
               />
+              )}
               <div className="flex items-center gap-3 px-2">
                 {!inputText && !isInputDisabled && (
                    <>
-                    {/* Image and Heart icons, if needed, would go here. Mic removed. */}
-                    <Image className="w-6 h-6 text-white cursor-pointer opacity-50" />
-                    <Heart className="w-6 h-6 text-white cursor-pointer opacity-50" />
+                    {!isRecording && (uploading ? (
+                      <Loader2 className="w-6 h-6 text-white animate-spin" />
+                    ) : (
+                      <button onClick={() => fileInputRef.current?.click()} title="Send image" className="text-white hover:opacity-80">
+                        <Image className="w-6 h-6" />
+                      </button>
+                    ))}
+                    {voiceRecordingSupported() && !uploading && (
+                      <button
+                        onPointerDown={handleMicDown}
+                        onPointerMove={handleMicMove}
+                        onPointerUp={() => handleMicUp(true)}
+                        onPointerCancel={() => handleMicUp(false)}
+                        title="Hold to record"
+                        className={`touch-none transition-transform ${isRecording ? 'text-red-500 scale-125' : 'text-white hover:opacity-80'}`}
+                      >
+                        <Mic className="w-6 h-6" />
+                      </button>
+                    )}
+                    {!isRecording && <Heart className="w-6 h-6 text-white cursor-pointer opacity-50" />}
                    </>
                 )}
-                {(inputText && !isInputDisabled) && (
+                {(inputText && !isInputDisabled) && (cooldownSeconds > 0 ? (
+                   <span className="text-zinc-500 font-semibold text-sm tabular-nums" title="Slow down">
+                      {cooldownSeconds}s
+                   </span>
+                ) : (
                    <button onClick={handleSendText} className="text-[#3797f0] font-semibold text-sm hover:text-blue-400">
                       Send
                    </button>
-                )}
+                ))}
               </div>
             </>
         </div>
@@ -456,22 +1439,35 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         <div 
             className="fixed z-50 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl overflow-hidden py-1 min-w-[180px]"
             style={{ 
-                top: Math.min(contextMenu.y, window.innerHeight - 300), 
+                top: Math.min(contextMenu.y, window.innerHeight - 360), 
                 left: Math.min(contextMenu.x, window.innerWidth - 200) 
             }}
         >
+            {!contextMenu.message.unsent && (
+              <div className="flex items-center justify-between gap-1 px-2 py-2 border-b border-zinc-700">
+                {QUICK_REACTIONS.map(emoji => (
+                  <button
+                    key={emoji}
+                    onClick={(e) => { e.stopPropagation(); handlePickReaction(emoji); }}
+                    className={`text-xl w-9 h-9 rounded-full hover:bg-zinc-700 transition-transform hover:scale-110 ${myReaction(contextMenu.message!) === emoji ? 'bg-zinc-600' : ''}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
             {contextMenu.message.isMe ? (
               <>
                  {/* Message Info for my own messages */}
                  <button onClick={(e) => { e.stopPropagation(); handleShowInfo(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                     <Eye size={16} /> Message Info
                  </button>
-                 {contextMenu.message.text && (
+                 {contextMenu.message.text && !contextMenu.message.attachment && (
                    <button onClick={(e) => { e.stopPropagation(); handleCopy(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                       <Copy size={16} /> Copy
                    </button>
                  )}
-                 {contextMenu.message.text && (
+                 {contextMenu.message.text && !contextMenu.message.attachment && (
                    <button onClick={(e) => { e.stopPropagation(); handleTranslate(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                       <Languages size={16} /> Translate
                    </button>
@@ -479,8 +1475,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                  <button onClick={(e) => { e.stopPropagation(); handleDeleteForYou(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                     <Trash2 size={16} /> Delete For You
                  </button>
-                 {/* Unsend is only for BroadcastChannel messages for now */}
-                 {room.id !== RoomType.ONE_ON_ONE && (
+                 {!contextMenu.message.unsent && (
                    <button onClick={(e) => { e.stopPropagation(); handleUnsend(); }} className="w-full text-left px-4 py-3 text-sm text-red-500 hover:bg-zinc-700 flex items-center gap-2 border-t border-zinc-700">
                       <Trash2 size={16} /> Unsend
                    </button>
@@ -488,12 +1483,12 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
               </>
             ) : (
               <>
-                 {contextMenu.message.text && (
+                 {contextMenu.message.text && !contextMenu.message.attachment && (
                    <button onClick={(e) => { e.stopPropagation(); handleCopy(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                       <Copy size={16} /> Copy
                    </button>
                  )}
-                 {contextMenu.message.text && (
+                 {contextMenu.message.text && !contextMenu.message.attachment && (
                    <button onClick={(e) => { e.stopPropagation(); handleTranslate(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                       <Languages size={16} /> Translate
                    </button>
@@ -501,13 +1496,197 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                  <button onClick={(e) => { e.stopPropagation(); handleDeleteForYou(); }} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-zinc-700 flex items-center gap-2">
                     <Trash2 size={16} /> Delete For You
                  </button>
-                 <button onClick={(e) => { e.stopPropagation(); handleBlock(); }} className="w-full text-left px-4 py-3 text-sm text-red-500 hover:bg-zinc-700 flex items-center gap-2 border-t border-zinc-700">
-                    <Ban size={16} /> Block User
-                 </button>
+                 {contextMenu.message.senderUid && !contextMenu.message.unsent && (
+                   <button onClick={(e) => { e.stopPropagation(); reportFromMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-red-500 hover:bg-zinc-700 flex items-center gap-2 border-t border-zinc-700">
+                      <ShieldAlert size={16} /> Report Message
+                   </button>
+                 )}
+                 {contextMenu.message.senderUid && (
+                   <button onClick={(e) => { e.stopPropagation(); reportFromMenu(true); }} className="w-full text-left px-4 py-3 text-sm text-red-500 hover:bg-zinc-700 flex items-center gap-2">
+                      <ShieldAlert size={16} /> Report User
+                   </button>
+                 )}
+                 {contextMenu.message.senderUid && (
+                   <button onClick={(e) => { e.stopPropagation(); handleBlock(); }} className="w-full text-left px-4 py-3 text-sm text-red-500 hover:bg-zinc-700 flex items-center gap-2 border-t border-zinc-700">
+                      <Ban size={16} /> Block User
+                   </button>
+                 )}
               </>
             )}
         </div>
       )}
+
+      {/* Report sheet */}
+      {reportTarget && (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-end md:items-center justify-center" onClick={() => setReportTarget(null)}>
+          <div className="w-full md:max-w-sm bg-zinc-900 border border-zinc-800 rounded-t-2xl md:rounded-2xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="px-5 py-4 border-b border-zinc-800 flex items-center justify-between">
+              <h3 className="font-semibold text-white flex items-center gap-2">
+                <ShieldAlert size={18} /> Report {reportTarget.messageId ? 'message' : reportTarget.username}
+              </h3>
+              <button onClick={() => setReportTarget(null)} className="text-zinc-400 hover:text-white">
+                <X size={20} />
+              </button>
+            </div>
+            {reportStatus === 'sent' ? (
+              <div className="px-5 py-8 text-center">
+                <p className="text-white font-semibold">Thanks for letting us know</p>
+                <p className="text-sm text-zinc-400 mt-1">A moderator will review it. You can also block {reportTarget.username}.</p>
+                <div className="flex justify-center gap-2 mt-5">
+                  <button
+                    onClick={() => { onBlockUser(reportTarget.uid, reportTarget.username); setReportTarget(null); }}
+                    className="px-4 py-2 rounded-lg bg-zinc-800 text-sm text-red-400 hover:bg-zinc-700"
+                  >
+                    Block
+                  </button>
+                  <button onClick={() => setReportTarget(null)} className="px-4 py-2 rounded-lg bg-[#3797f0] text-sm text-white hover:opacity-90">
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="overflow-y-auto no-scrollbar p-5 space-y-2">
+                <p className="text-sm text-zinc-400 mb-2">Why are you reporting this?</p>
+                {REPORT_REASONS.map(r => (
+                  <label key={r.value} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 cursor-pointer text-sm text-white">
+                    <input
+                      type="radio"
+                      name="report-reason"
+                      checked={reportReason === r.value}
+                      onChange={() => setReportReason(r.value)}
+                      className="accent-[#3797f0]"
+                    />
+                    {r.label}
+                  </label>
+                ))}
+                <textarea
+                  value={reportDetails}
+                  onChange={(e) => setReportDetails(e.target.value)}
+                  placeholder="Anything else we should know? (optional)"
+                  maxLength={500}
+                  rows={3}
+                  className="w-full mt-2 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500 resize-none"
+                />
+                {reportStatus === 'failed' && <p className="text-xs text-red-400">Couldn't send the report. Try again.</p>}
+                <button
+                  onClick={handleSubmitReport}
+                  disabled={!reportReason || reportStatus === 'sending'}
+                  className="w-full mt-2 py-2 rounded-lg bg-red-500 text-white text-sm font-semibold hover:bg-red-600 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {reportStatus === 'sending' && <Loader2 size={16} className="animate-spin" />} Submit report
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Reactions: who reacted with what */}
+      {reactionsMessage && (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-end md:items-center justify-center" onClick={() => setShowReactions(null)}>
+          <div className="w-full md:max-w-sm bg-zinc-900 border border-zinc-800 rounded-t-2xl md:rounded-2xl max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="px-5 py-4 border-b border-zinc-800 flex items-center justify-between">
+              <h3 className="font-semibold text-white">Reactions</h3>
+              <button onClick={() => setShowReactions(null)} className="text-zinc-400 hover:text-white">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex gap-2 px-5 py-2 border-b border-zinc-800 overflow-x-auto no-scrollbar text-sm">
+              <button
+                onClick={() => setReactionFilter(null)}
+                className={`px-3 py-1 rounded-full ${!reactionFilter ? 'bg-white/15 text-white' : 'text-zinc-400 hover:text-white'}`}
+              >
+                All {getReactions(reactionsMessage).length}
+              </button>
+              {reactionCounts(reactionsMessage).map(([emoji, count]) => (
+                <button
+                  key={emoji}
+                  onClick={() => setReactionFilter(emoji)}
+                  className={`px-3 py-1 rounded-full ${reactionFilter === emoji ? 'bg-white/15 text-white' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  {emoji} {count}
+                </button>
+              ))}
+            </div>
+            <div className="overflow-y-auto no-scrollbar py-2">
+              {reactionsList.length === 0 ? (
+                <p className="px-5 py-6 text-sm text-zinc-500 text-center">No reactions yet.</p>
+              ) : (
+                reactionsList.map(entry => {
+                  const [uid, reaction] = entry;
+                  const mine = isMyReaction(entry);
+                  return (
+                    <button
+                      key={uid}
+                      disabled={!mine}
+                      onClick={() => onReact(reactionsMessage.id, null)}
+                      className="w-full flex items-center gap-3 px-5 py-2 text-left enabled:hover:bg-white/5"
+                    >
+                      <img src={getAvatar(reaction.username)} alt={reaction.username} className="w-8 h-8 rounded-full bg-zinc-800 object-cover" />
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm text-white truncate">{mine ? 'You' : reaction.username}</span>
+                        {mine && <span className="block text-xs text-zinc-500">Tap to remove</span>}
+                      </span>
+                      <span className="text-xl">{reaction.emoji}</span>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Message Info: who has seen it */}
+      {readInfoMessage && (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-end md:items-center justify-center" onClick={() => setShowReadInfo(null)}>
+          <div className="w-full md:max-w-sm bg-zinc-900 border border-zinc-800 rounded-t-2xl md:rounded-2xl max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="px-5 py-4 border-b border-zinc-800 flex items-center justify-between">
+              <h3 className="font-semibold text-white flex items-center gap-2">
+                <Eye size={18} /> Seen by {seenCount(readInfoMessage)}
+              </h3>
+              <button onClick={() => setShowReadInfo(null)} className="text-zinc-400 hover:text-white">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="overflow-y-auto no-scrollbar py-2">
+              {readInfoReaders.length === 0 ? (
+                <p className="px-5 py-6 text-sm text-zinc-500 text-center">Nobody has seen this yet.</p>
+              ) : (
+                readInfoReaders.map((reader, i) => (
+                  <div key={`${reader.username}_${i}`} className="flex items-center gap-3 px-5 py-2">
+                    <img src={getAvatar(reader.username)} alt={reader.username} className="w-8 h-8 rounded-full bg-zinc-800 object-cover" />
+                    <span className="flex-1 text-sm text-white truncate">{reader.username}</span>
+                    <span className="text-xs text-zinc-500">
+                      {new Date(reader.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                ))
+              )}
+              {receiptsFull(readInfoMessage) && (
+                <p className="px-5 py-3 text-xs text-zinc-500 text-center">
+                  and possibly others; only the first {READ_RECEIPT_CAP} readers are recorded
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Image Lightbox */}
+      {lightboxImage && (
+        <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4" onClick={() => setLightboxImage(null)}>
+          <button onClick={() => setLightboxImage(null)} className="absolute top-4 right-4 text-zinc-300 hover:text-white">
+            <X size={28} />
+          </button>
+          <img
+            src={lightboxImage.url}
+            alt="Image"
+            className="max-w-full max-h-full object-contain rounded-lg"
+            onClick={(e) => e.stopPropagation()}
+          />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,25 +1,76 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { UserProfile } from '../types';
-import { MapPin, Navigation } from 'lucide-react';
+import { MapPin, Navigation, Languages, Check, X, Loader2 } from 'lucide-react';
 import { LOCATIONS } from '../data/locations';
+import { LANGUAGES } from '../data/languages';
+import { defaultLanguageCode } from '../services/translation';
+import { UsernameCheck, validateUsername } from '../services/users';
 import { Logo } from './Logo';
 
 interface LoginProps {
-  onLogin: (profile: UserProfile) => void;
+  onLogin: (profile: UserProfile) => Promise<void>; // Rejects with a user-facing message, e.g. the name was just taken
+  checkUsername?: (username: string) => Promise<UsernameCheck>; // Absent in demo mode, where names are only validated
+  connecting: boolean; // Waiting for auth; can't claim a name yet
 }
 
-export const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const USERNAME_CHECK_DEBOUNCE_MS = 400;
+
+export const Login: React.FC<LoginProps> = ({ onLogin, checkUsername, connecting }) => {
   const [username, setUsername] = useState('');
+  const [check, setCheck] = useState<UsernameCheck | 'checking' | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const checkUsernameRef = useRef(checkUsername);
+  checkUsernameRef.current = checkUsername;
   const [country, setCountry] = useState('');
   const [state, setState] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState(defaultLanguageCode);
 
   const countries = Object.keys(LOCATIONS).sort();
   const states = country ? LOCATIONS[country].sort() : [];
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Live availability: format first, then the reservation index
+  useEffect(() => {
+    if (!username) {
+      setCheck(null);
+      return;
+    }
+    const invalid = validateUsername(username);
+    if (invalid) {
+      setCheck({ status: 'invalid', reason: invalid });
+      return;
+    }
+    const lookup = checkUsernameRef.current;
+    if (!lookup) {
+      setCheck({ status: 'available' });
+      return;
+    }
+    setCheck('checking');
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      lookup(username)
+        .then(result => !cancelled && setCheck(result))
+        .catch(() => !cancelled && setCheck(null));
+    }, USERNAME_CHECK_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [username, !!checkUsername]);
+
+  const canSubmit = !connecting && !submitting && check !== 'checking' && check?.status !== 'invalid' && check?.status !== 'taken';
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (username && country && state) {
-      onLogin({ username, country, state });
+    if (!username || !country || !state || !canSubmit) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onLogin({ username, country, state, preferredLanguage });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign in');
+      if (checkUsername) checkUsername(username).then(setCheck).catch(() => {});
+      setSubmitting(false);
     }
   };
 
@@ -52,8 +103,24 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               onChange={(e) => setUsername(e.target.value)}
               className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all placeholder-zinc-600"
               placeholder="@johndoe"
+              autoComplete="off"
               required
             />
+            {check && (
+              <p className={`mt-2 text-xs flex items-center gap-1.5 ${
+                check === 'checking' ? 'text-zinc-500' : check.status === 'available' ? 'text-green-400' : 'text-red-400'
+              }`}>
+                {check === 'checking' ? (
+                  <><Loader2 size={12} className="animate-spin" /> Checking availability…</>
+                ) : check.status === 'available' ? (
+                  <><Check size={12} /> Available</>
+                ) : check.status === 'taken' ? (
+                  <><X size={12} /> That username is taken</>
+                ) : (
+                  <><X size={12} /> {check.reason}</>
+                )}
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 gap-4">
@@ -106,11 +173,34 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             </div>
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 text-xs font-medium text-zinc-400 uppercase tracking-wider mb-2">
+              <Languages size={14} /> Preferred Language
+            </label>
+            <div className="relative">
+              <select
+                value={preferredLanguage}
+                onChange={(e) => setPreferredLanguage(e.target.value)}
+                className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 transition-colors appearance-none cursor-pointer"
+              >
+                {Object.entries(LANGUAGES).map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+              <div className="absolute inset-y-0 right-0 flex items-center px-4 pointer-events-none text-zinc-500">
+                <svg className="w-4 h-4 fill-current" viewBox="0 0 20 20"><path d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" /></svg>
+              </div>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
           <button
             type="submit"
-            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-semibold py-3 rounded-lg transition-all shadow-[0_0_20px_rgba(37,99,235,0.3)] hover:shadow-[0_0_25px_rgba(37,99,235,0.5)] flex items-center justify-center gap-2"
+            disabled={!canSubmit}
+            className="w-full disabled:opacity-50 disabled:cursor-not-allowed bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-semibold py-3 rounded-lg transition-all shadow-[0_0_20px_rgba(37,99,235,0.3)] hover:shadow-[0_0_25px_rgba(37,99,235,0.5)] flex items-center justify-center gap-2"
           >
-            Enter Messenger <Navigation size={18} />
+            {connecting ? 'Connecting…' : submitting ? <Loader2 size={18} className="animate-spin" /> : <>Enter Messenger <Navigation size={18} /></>}
           </button>
         </form>
         
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { HeldMessageDoc, ReportContextMessage, ReportDoc, RoomType } from '../types';
+import { ShieldAlert, X, Check, Trash2, Ban, Loader2, Clock } from 'lucide-react';
+import { REPORT_REASONS, SUSPEND_OPTIONS, suspensionTarget } from '../services/moderation';
+
+interface ModerationPanelProps {
+  reports: ReportDoc[]; // Open reports, newest first
+  heldMessages: HeldMessageDoc[]; // Held by automated moderation, oldest first
+  onApproveHeld: (held: HeldMessageDoc) => Promise<void>;
+  onDiscardHeld: (held: HeldMessageDoc) => Promise<void>;
+  onLoadContext: (report: ReportDoc) => Promise<ReportContextMessage[]>; // Reports store message ids only
+  onDismiss: (report: ReportDoc) => Promise<void>;
+  onDeleteMessage: (report: ReportDoc) => Promise<void>;
+  onSuspend: (report: ReportDoc, uid: string, durationMs: number) => Promise<void>; // uid from the loaded messages
+  onClose: () => void;
+}
+
+const ROOM_LABELS: Record<RoomType, string> = {
+  [RoomType.WORLD]: 'World',
+  [RoomType.COUNTRY]: 'Country',
+  [RoomType.STATE]: 'State',
+  [RoomType.ONE_ON_ONE]: 'One on One',
+};
+
+const reasonLabel = (reason: ReportDoc['reason']) => REPORT_REASONS.find(r => r.value === reason)?.label || reason;
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// The messages around a report, loaded fresh rather than trusted from the reporter
+const ReportContext: React.FC<{
+  report: ReportDoc;
+  load: ModerationPanelProps['onLoadContext'];
+  onLoaded: (messages: ReportContextMessage[]) => void;
+}> = ({ report, load, onLoaded }) => {
+  const [messages, setMessages] = useState<ReportContextMessage[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    load(report)
+      .then(m => {
+        if (cancelled) return;
+        setMessages(m);
+        onLoaded(m);
+      })
+      .catch(err => {
+        console.error('Report context error', err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [report.id]);
+
+  if (failed) return <p className="px-3 py-2 text-xs text-red-400">Couldn't load the messages.</p>;
+  if (!messages) return <p className="px-3 py-2 text-xs text-zinc-500">Loading messages…</p>;
+  if (messages.length === 0) return <p className="px-3 py-2 text-xs text-zinc-500">No messages captured.</p>;
+
+  return (
+    <>
+      {messages.map(m => (
+        <div
+          key={m.id}
+          className={`px-3 py-1.5 text-sm ${m.id === report.messageId ? 'bg-red-500/15' : ''} ${m.senderUid === report.targetUid ? 'text-white' : 'text-zinc-400'}`}
+        >
+          <span className="text-xs text-zinc-500 mr-2">
+            {new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <span className="font-semibold mr-1">{m.sender}:</span>
+          {m.text || <span className="italic text-zinc-500">unsent</span>}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export const ModerationPanel: React.FC<ModerationPanelProps> = ({
+  reports,
+  heldMessages,
+  onApproveHeld,
+  onDiscardHeld,
+  onLoadContext,
+  onDismiss,
+  onDeleteMessage,
+  onSuspend,
+  onClose,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [suspendOpenId, setSuspendOpenId] = useState<string | null>(null);
+  const [contexts, setContexts] = useState<Record<string, ReportContextMessage[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (item: { id?: string }, action: () => Promise<void>) => {
+    setBusyId(item.id!);
+    setSuspendOpenId(null);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Moderation error', err);
+      setError('That action failed. Check your moderator permissions and try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="p-6 border-b border-zinc-800 flex items-center justify-between bg-zinc-950">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <ShieldAlert size={22} /> Moderation
+          <span className="text-sm font-normal text-zinc-500">
+            {reports.length} open{heldMessages.length > 0 && ` · ${heldMessages.length} held`}
+          </span>
+        </h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white">
+          <X size={22} />
+        </button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-400 border-b border-zinc-800">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto no-scrollbar">
+        {/* Held by automated moderation */}
+        {heldMessages.length > 0 && (
+          <div className="border-b border-zinc-800">
+            <h3 className="px-6 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-zinc-500 max-w-3xl mx-auto w-full flex items-center gap-1.5">
+              <Clock size={12} /> Held for review
+            </h3>
+            {heldMessages.map(held => (
+              <div key={held.id} className="px-6 py-4 border-b border-zinc-900 last:border-b-0 max-w-3xl mx-auto w-full">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">
+                      <span className="font-semibold text-yellow-400">{held.reason}</span>
+                      {' · '}
+                      <span className="font-semibold">{held.message.sender}</span>
+                    </p>
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      {ROOM_LABELS[held.roomType]} ({held.message.roomId}) · flagged by {held.source} · {formatTime(held.heldAt)}
+                    </p>
+                    <p className="mt-2 px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 text-sm text-zinc-200 break-words">
+                      {held.message.text}
+                    </p>
+                  </div>
+                  {busyId === held.id && <Loader2 size={18} className="animate-spin text-zinc-400 flex-shrink-0" />}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <button
+                    disabled={busyId === held.id}
+                    onClick={() => run(held, () => onApproveHeld(held))}
+                    className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-white hover:bg-zinc-700 flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    <Check size={14} /> Approve
+                  </button>
+                  <button
+                    disabled={busyId === held.id}
+                    onClick={() => run(held, () => onDiscardHeld(held))}
+                    className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-red-400 hover:bg-zinc-700 flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    <Trash2 size={14} /> Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {reports.length === 0 ? (
+          <p className="px-6 py-16 text-center text-zinc-500">No open reports.</p>
+        ) : (
+          reports.map(report => {
+            const target = contexts[report.id!] && suspensionTarget(report, contexts[report.id!]);
+            return (
+              <div key={report.id} className="px-6 py-5 border-b border-zinc-900 max-w-3xl mx-auto w-full">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">
+                      <span className="font-semibold text-red-400">{reasonLabel(report.reason)}</span>
+                      {' · '}
+                      {report.messageId ? 'Message' : 'User'} by <span className="font-semibold">{report.targetUsername}</span>
+                    </p>
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      Reported by {report.reporterName} in {ROOM_LABELS[report.roomType]}
+                      {report.roomType !== RoomType.ONE_ON_ONE && ` (${report.roomId})`}
+                      {' · '}
+                      {formatTime(report.createdAt)}
+                    </p>
+                    {report.details && <p className="text-sm text-zinc-300 mt-2 italic">"{report.details}"</p>}
+                  </div>
+                  {busyId === report.id && <Loader2 size={18} className="animate-spin text-zinc-400 flex-shrink-0" />}
+                </div>
+
+                {/* Context */}
+                <div className="mt-3 rounded-lg bg-zinc-900 border border-zinc-800 divide-y divide-zinc-800/60">
+                  <ReportContext
+                    report={report}
+                    load={onLoadContext}
+                    onLoaded={m => setContexts(prev => ({ ...prev, [report.id!]: m }))}
+                  />
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-wrap items-center gap-2 mt-3 relative">
+                  <button
+                    disabled={busyId === report.id}
+                    onClick={() => run(report, () => onDismiss(report))}
+                    className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-white hover:bg-zinc-700 flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    <Check size={14} /> Dismiss
+                  </button>
+                  {report.messageId && (
+                    <button
+                      disabled={busyId === report.id}
+                      onClick={() => run(report, () => onDeleteMessage(report))}
+                      className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-red-400 hover:bg-zinc-700 flex items-center gap-1.5 disabled:opacity-50"
+                    >
+                      <Trash2 size={14} /> Delete message
+                    </button>
+                  )}
+                  {/* Only once the messages show who sent them */}
+                  {target && (
+                    <button
+                      disabled={busyId === report.id}
+                      onClick={() => setSuspendOpenId(suspendOpenId === report.id ? null : report.id!)}
+                      className="px-3 py-1.5 rounded-lg bg-zinc-800 text-sm text-red-400 hover:bg-zinc-700 flex items-center gap-1.5 disabled:opacity-50"
+                    >
+                      <Ban size={14} /> Suspend {target.username}
+                    </button>
+                  )}
+                  {target && suspendOpenId === report.id && SUSPEND_OPTIONS.map(opt => (
+                    <button
+                      key={opt.label}
+                      onClick={() => run(report, () => onSuspend(report, target.uid, opt.durationMs))}
+                      className="px-3 py-1.5 rounded-full border border-red-500/40 text-xs text-red-300 hover:bg-red-500/10"
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
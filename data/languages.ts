@@ -0,0 +1,15 @@
+// ISO 639-1 codes offered as a preferred language
+export const LANGUAGES: Record<string, string> = {
+  "en": "English",
+  "es": "Spanish",
+  "fr": "French",
+  "de": "German",
+  "pt": "Portuguese",
+  "it": "Italian",
+  "hi": "Hindi",
+  "ja": "Japanese",
+  "ko": "Korean",
+  "zh": "Chinese",
+  "ar": "Arabic",
+  "ru": "Russian"
+};
@@ -0,0 +1,23 @@
+// Words matched whole and case-insensitively by the local moderation rules
+// (services/moderationRules.ts) and the username check (services/users.ts).
+// Keep entries lowercase.
+
+// Masked with asterisks; the message still goes through
+export const MASKED_WORDS: string[] = [
+  "fuck",
+  "fucking",
+  "shit",
+  "bitch",
+  "asshole",
+  "bastard",
+  "dick",
+  "cunt",
+  "motherfucker",
+];
+
+// Phrases that get a message rejected outright
+export const BLOCKED_PHRASES: string[] = [
+  "kill yourself",
+  "kys",
+  "go die",
+];
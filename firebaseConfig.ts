@@ -1,11 +1,16 @@
 import { initializeApp, getApps } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
+
+// Set VITE_USE_FIREBASE_EMULATOR=true to run against `firebase emulators:start`
+const useEmulator = import.meta.env.VITE_USE_FIREBASE_EMULATOR === "true";
 
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY || (useEmulator ? "demo-key" : undefined),
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || (useEmulator ? "demo-plyxor" : undefined),
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || (useEmulator ? "demo-plyxor.appspot.com" : undefined),
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
@@ -17,3 +22,11 @@ if (!getApps().length && firebaseConfig.apiKey) {
 
 export const auth = app ? getAuth(app) : null;
 export const db = app ? getFirestore(app) : null;
+export const storage = app && firebaseConfig.storageBucket ? getStorage(app) : null;
+
+if (useEmulator && auth && db) {
+  const host = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || "127.0.0.1";
+  connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, host, 8080);
+  if (storage) connectStorageEmulator(storage, host, 9199);
+}
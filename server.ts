@@ -1,3 +1,305 @@
-// This file is no longer used. 
-// The backend logic has been migrated to Firebase (Firestore + Auth).
-// You can delete this file.
\ No newline at end of file
+// Translation and moderation proxy. Owns the Gemini API key so it never ships in the client
+// bundle, and puts per-user rate limits and input caps in front of the model. It is also
+// the trusted writer of `screenings`: firestore.rules only accept a public-room message
+// whose screening this proxy recorded.
+//
+//   GEMINI_API_KEY=... npm run server     # real model
+//   MODEL_BACKEND=mock npm run server     # deterministic, no network
+//
+// Every request carries the caller's Firebase ID token (Authorization: Bearer),
+// verified with the Admin SDK. Set FIREBASE_PROJECT_ID to the app's project and
+// provide Admin credentials (GOOGLE_APPLICATION_CREDENTIALS), or point it at the
+// emulators with FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 and
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8080.
+//
+// The Vite dev server forwards /api/* here (see vite.config.ts).
+
+import http from "node:http";
+import { GoogleGenAI, Type } from "@google/genai";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { DEFAULT_RULES, ModerationStage, createRulesStage, runStages } from "./services/moderationRules";
+import { BatchTranslation, Classification, stubClassify, stubTranslate, stubTranslateBatch } from "./services/stubModels";
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_BATCH_SIZE = 25;
+const SCREENINGS = "screenings";
+const RATE_LIMIT = 30; // requests...
+const RATE_WINDOW_MS = 60000; // ...per user per window
+
+interface ModelBackend {
+  translate: (text: string, targetLanguage: string) => Promise<string>;
+  translateBatch: (texts: string[], targetLanguage: string) => Promise<BatchTranslation[]>;
+  classify: (text: string) => Promise<Classification>;
+}
+
+const CLASSIFY_ACTIONS = ["allow", "hold", "reject"];
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/* ---------------- MODEL BACKENDS ---------------- */
+
+const createGeminiBackend = (apiKey: string): ModelBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    translate: async (text, targetLanguage) => {
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: `Translate the following informal chat message into ${targetLanguage}. Keep the tone and slang if possible: "${text}"`,
+      });
+      if (!response.text) throw new Error("Empty translation response");
+      return response.text;
+    },
+
+    translateBatch: async (texts, targetLanguage) => {
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: `For each informal chat message in this JSON array, detect its language as an ISO 639-1 code and translate it into ${targetLanguage}, keeping the tone and slang if possible. Answer in the same order.\n${JSON.stringify(texts)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                detectedLanguage: { type: Type.STRING },
+                translation: { type: Type.STRING },
+              },
+              required: ["detectedLanguage", "translation"],
+            },
+          },
+        },
+      });
+
+      const results = JSON.parse(response.text || "[]");
+      if (!Array.isArray(results) || results.length !== texts.length) {
+        throw new Error("Malformed batch translation response");
+      }
+      return results;
+    },
+
+    classify: async (text) => {
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: `You moderate a public chat room. Decide what to do with this message: "allow" for normal chat including mild swearing, "hold" when a human moderator should look first (possible scams, personal information, borderline harassment), "reject" for clear hate speech, threats, sexual content or encouraging self-harm. For hold and reject give a short reason addressed to the sender, e.g. "Threats aren't allowed here". Message: ${JSON.stringify(text)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              action: { type: Type.STRING, enum: CLASSIFY_ACTIONS },
+              reason: { type: Type.STRING },
+            },
+            required: ["action"],
+          },
+        },
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      if (!CLASSIFY_ACTIONS.includes(result.action)) {
+        throw new Error("Malformed classification response");
+      }
+      return result.action === "allow" ? { action: "allow" } : { action: result.action, reason: result.reason };
+    },
+  };
+};
+
+// The client's stubs (services/stubModels.ts), exercised over HTTP
+const mockBackend: ModelBackend = {
+  translate: async (text, targetLanguage) => stubTranslate(text, targetLanguage),
+  translateBatch: async (texts, targetLanguage) => stubTranslateBatch(texts, targetLanguage),
+  classify: async (text) => stubClassify(text),
+};
+
+// The mock only runs when asked for by name, so a missing key fails loudly
+// instead of quietly serving fake translations
+const selectBackend = (): ModelBackend => {
+  if (process.env.MODEL_BACKEND === "mock") return mockBackend;
+  if (process.env.MODEL_BACKEND && process.env.MODEL_BACKEND !== "gemini") {
+    throw new Error(`Unknown MODEL_BACKEND "${process.env.MODEL_BACKEND}" (expected "gemini" or "mock")`);
+  }
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is not set; set it, or run with MODEL_BACKEND=mock");
+  }
+  return createGeminiBackend(process.env.GEMINI_API_KEY);
+};
+
+let backend: ModelBackend;
+try {
+  backend = selectBackend();
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
+
+/* ---------------- AUTH ---------------- */
+
+const adminApp = initializeApp(process.env.FIREBASE_PROJECT_ID ? { projectId: process.env.FIREBASE_PROJECT_ID } : undefined);
+
+// The uid from a verified ID token; anything else is turned away before it
+// reaches the rate limiter or the model
+const verifyCaller = async (req: http.IncomingMessage) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+  if (!match) throw new HttpError(401, "Sign in required");
+  try {
+    const { uid } = await getAuth(adminApp).verifyIdToken(match[1]);
+    return uid;
+  } catch {
+    throw new HttpError(401, "Invalid or expired ID token");
+  }
+};
+
+/* ---------------- RATE LIMITING ---------------- */
+
+// Fixed window per verified uid
+const windows = new Map<string, { start: number; count: number }>();
+
+const checkRateLimit = (uid: string) => {
+  const now = Date.now();
+  const current = windows.get(uid);
+  if (!current || now - current.start >= RATE_WINDOW_MS) {
+    windows.set(uid, { start: now, count: 1 });
+    return;
+  }
+  if (++current.count > RATE_LIMIT) {
+    throw new HttpError(429, "Rate limit exceeded");
+  }
+};
+
+setInterval(() => {
+  const now = Date.now();
+  windows.forEach((w, key) => {
+    if (now - w.start >= RATE_WINDOW_MS) windows.delete(key);
+  });
+}, RATE_WINDOW_MS).unref();
+
+/* ---------------- REQUEST HELPERS ---------------- */
+
+const readJson = (req: http.IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}"));
+      } catch {
+        reject(new HttpError(400, "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+// Route bodies arrive as unknown JSON; each route names the fields it reads
+const requireObject = (body: unknown): Record<string, unknown> => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+};
+
+const requireText = (value: unknown, field: string) => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(413, `${field} exceeds ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value;
+};
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/* ---------------- ROUTES ---------------- */
+
+// The same local rules the client ships, then the model
+const screeningStages: ModerationStage[] = [
+  createRulesStage(DEFAULT_RULES),
+  { name: "model", check: (text) => backend.classify(text) },
+];
+
+const routes: Record<string, (body: unknown, uid: string) => Promise<unknown>> = {
+  "/api/translate": async (body) => {
+    const { text, targetLanguage } = requireObject(body);
+    return {
+      translation: await backend.translate(requireText(text, "text"), requireText(targetLanguage, "targetLanguage")),
+    };
+  },
+
+  "/api/translate/batch": async (body) => {
+    const { texts, targetLanguage } = requireObject(body);
+    if (!Array.isArray(texts) || texts.length === 0) {
+      throw new HttpError(400, "texts is required");
+    }
+    if (texts.length > MAX_BATCH_SIZE) {
+      throw new HttpError(413, `texts exceeds ${MAX_BATCH_SIZE} items`);
+    }
+    const valid = texts.map((t: unknown, i) => requireText(t, `texts[${i}]`));
+    return { results: await backend.translateBatch(valid, requireText(targetLanguage, "targetLanguage")) };
+  },
+
+  // Records the verdict for firestore.rules; the client writes the message
+  // (or held message) under the returned id
+  "/api/screen": async (body, uid) => {
+    const { text, roomId } = requireObject(body);
+    const room = requireText(roomId, "roomId");
+    const verdict = await runStages(screeningStages, requireText(text, "text"));
+    if (verdict.action === "reject") return verdict;
+
+    const ref = await getFirestore(adminApp).collection(SCREENINGS).add({
+      uid,
+      roomId: room,
+      text: verdict.text,
+      action: verdict.action,
+      at: FieldValue.serverTimestamp(),
+    });
+    return { ...verdict, id: ref.id };
+  },
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = routes[req.url || ""];
+  if (req.method !== "POST" || !route) {
+    send(res, 404, { error: "Not found" });
+    return;
+  }
+
+  try {
+    const uid = await verifyCaller(req);
+    checkRateLimit(uid);
+    send(res, 200, await route(await readJson(req), uid));
+  } catch (err) {
+    if (err instanceof HttpError) {
+      send(res, err.status, { error: err.message });
+      return;
+    }
+    console.error("Proxy error", err);
+    send(res, 502, { error: "Model backend failed" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Plyxor proxy listening on :${PORT} (${backend === mockBackend ? "mock" : "gemini"} backend)`);
+});
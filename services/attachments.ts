@@ -0,0 +1,129 @@
+import { Attachment, AudioAttachment, ImageAttachment } from "../types";
+import { AttachmentStorage } from "./storage";
+import { MAX_VOICE_DURATION_MS, VoiceRecording } from "./recorder";
+
+// Clients that predate attachments only render `text`, so every attachment
+// message also carries a readable fallback there.
+export const ATTACHMENT_FALLBACK: Record<Attachment["kind"], string> = {
+  image: "[Image]",
+  audio: "[Voice message]",
+};
+
+export const MAX_IMAGE_INPUT_BYTES = 20 * 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 1600;
+const THUMB_DIMENSION = 320;
+const JPEG_QUALITY = 0.85;
+
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+const thumbPath = (path: string) => path.replace(/\.jpg$/, "_thumb.jpg");
+
+// Re-encoding through a canvas drops EXIF (GPS, camera, ...) along with all
+// other metadata. createImageBitmap applies the EXIF orientation first so
+// the pixels come out upright.
+const encodeJpeg = (bitmap: ImageBitmap, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas is not available"));
+  // JPEG has no alpha; flatten transparent PNGs onto white instead of black
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  return new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width, height }) : reject(new Error("Could not encode image"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    )
+  );
+};
+
+/** Resizes and strips `file`, then uploads the image and a thumbnail under the sender's uid. */
+export const uploadImage = async (
+  storage: AttachmentStorage,
+  uid: string,
+  file: File
+): Promise<ImageAttachment> => {
+  if (!isImageFile(file)) throw new Error("Only images can be attached");
+  if (file.size > MAX_IMAGE_INPUT_BYTES) throw new Error("Image is too large (max 20 MB)");
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  let full, thumb;
+  try {
+    full = await encodeJpeg(bitmap, MAX_IMAGE_DIMENSION);
+    thumb = await encodeJpeg(bitmap, THUMB_DIMENSION);
+  } finally {
+    bitmap.close();
+  }
+
+  const path = `attachments/${uid}/${crypto.randomUUID()}.jpg`;
+  const [url, thumbUrl] = await Promise.all([
+    storage.upload(path, full.blob),
+    storage.upload(thumbPath(path), thumb.blob),
+  ]);
+  return { kind: "image", url, thumbUrl, path, width: full.width, height: full.height };
+};
+
+/* ---------------- VOICE ---------------- */
+
+const WAVEFORM_BARS = 40;
+const VOICE_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+};
+
+// Peak level per bar, normalised so the loudest bar is 1. Falls back to a
+// flat line if the browser can't decode its own recording.
+const computeWaveform = async (blob: Blob) => {
+  const ctx = new AudioContext();
+  try {
+    const samples = (await ctx.decodeAudioData(await blob.arrayBuffer())).getChannelData(0);
+    const step = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks = Array.from({ length: WAVEFORM_BARS }, (_, i) => {
+      let peak = 0;
+      for (let j = i * step; j < Math.min((i + 1) * step, samples.length); j++) {
+        peak = Math.max(peak, Math.abs(samples[j]));
+      }
+      return peak;
+    });
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map((p) => Math.round((p / loudest) * 100) / 100);
+  } catch {
+    return Array<number>(WAVEFORM_BARS).fill(0.5);
+  } finally {
+    ctx.close();
+  }
+};
+
+export const uploadVoice = async (
+  storage: AttachmentStorage,
+  uid: string,
+  recording: VoiceRecording
+): Promise<AudioAttachment> => {
+  if (recording.durationMs > MAX_VOICE_DURATION_MS) throw new Error("Voice messages are limited to 60 seconds");
+  const ext = VOICE_EXTENSIONS[recording.blob.type];
+  if (!ext) throw new Error("This browser records in an unsupported format");
+
+  const path = `attachments/${uid}/${crypto.randomUUID()}.${ext}`;
+  const [url, waveform] = await Promise.all([
+    storage.upload(path, recording.blob, { durationMs: String(Math.round(recording.durationMs)) }),
+    computeWaveform(recording.blob),
+  ]);
+  return { kind: "audio", url, path, durationMs: recording.durationMs, waveform };
+};
+
+/** Best-effort cleanup after an unsend; the message tombstone is what matters. */
+export const removeAttachment = async (storage: AttachmentStorage, attachment: Attachment) => {
+  await Promise.all([
+    storage.remove(attachment.path),
+    ...(attachment.kind === "image" ? [storage.remove(thumbPath(attachment.path))] : []),
+  ]);
+};
@@ -0,0 +1,43 @@
+import { screenMessage } from "./geminiService";
+import { ModerationStage, ModerationVerdict, DEFAULT_RULES, createRulesStage, runStages } from "./moderationRules";
+import { stubClassify } from "./stubModels";
+
+export type { ModerationAction, ModerationRule, ModerationStage, ModerationVerdict, StageResult } from "./moderationRules";
+export { DEFAULT_RULES, createRulesStage } from "./moderationRules";
+
+// Public-room messages are screened before they are written. Signed in, that
+// happens on the proxy (POST /api/screen), which runs the rules in
+// moderationRules.ts plus the model and records its verdict in
+// `screenings/{id}`; firestore.rules only accept a public-room message, or a
+// held one, at the id of a matching screening. Demo mode has no proxy and
+// runs the same pipeline here.
+
+/* ---------------- CLASSIFIERS ---------------- */
+
+// Deterministic offline backend for tests and local development: "[hold]" and
+// "[reject]" anywhere in a message trigger those actions. The proxy's mock
+// backend runs the same code (services/stubModels.ts).
+export const stubClassifier: ModerationStage = {
+  name: "stub",
+  check: async (text) => stubClassify(text),
+};
+
+// Demo mode only: VITE_MODERATION_CLASSIFIER=stub adds the stub; unset runs
+// the local rules only
+let stages: ModerationStage[] = [
+  createRulesStage(DEFAULT_RULES),
+  import.meta.env.VITE_MODERATION_CLASSIFIER === "stub" ? stubClassifier : null,
+].filter((s): s is ModerationStage => s !== null);
+
+export const setModerationStages = (next: ModerationStage[]) => {
+  stages = next;
+};
+
+/** Screens in the browser, for demo mode. Nothing enforces the result. */
+export const moderateText = (text: string): Promise<ModerationVerdict> => runStages(stages, text);
+
+/**
+ * Screens on the proxy. Unless rejected, the verdict carries the `id` the
+ * message (or held message) has to be written under.
+ */
+export const screenText = (text: string, roomId: string): Promise<ModerationVerdict> => screenMessage(text, roomId);
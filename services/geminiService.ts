@@ -1,22 +1,52 @@
-import { GoogleGenAI } from "@google/genai";
+import { auth } from "../firebaseConfig";
+import type { ModerationVerdict } from "./moderationRules";
 
-// Initialize Gemini Client
-// Note: In a real production app, you would handle this more securely, usually via a backend proxy.
-// The API key must be obtained exclusively from the environment variable process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini is only reachable through our proxy (server.ts), which holds the API
+// key, verifies the caller's ID token and rate limits per uid. Errors
+// propagate so the UI can show them.
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "/api";
+
+const post = async <T>(path: string, body: unknown): Promise<T> => {
+  const user = auth?.currentUser;
+  if (!user) throw new Error("Sign in to use translation and screening");
+  const res = await fetch(`${PROXY_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Proxy request failed (${res.status})`);
+  return data as T;
+};
 
 export const translateMessage = async (text: string, targetLanguage: string): Promise<string> => {
-  try {
-    const prompt = `Translate the following informal chat message into ${targetLanguage}. Keep the tone and slang if possible: "${text}"`;
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
+  const { translation } = await post<{ translation: string }>("/translate", { text, targetLanguage });
+  return translation;
+};
+
+/**
+ * Translates several messages in one call. The model also reports each
+ * message's language (ISO 639-1) so callers can skip ones already in the
+ * target language.
+ */
+export const translateMessages = async (
+  texts: string[],
+  targetLanguage: string
+): Promise<{ detectedLanguage: string; translation: string }[]> => {
+  const { results } = await post<{ results: { detectedLanguage: string; translation: string }[] }>(
+    "/translate/batch",
+    { texts, targetLanguage }
+  );
+  return results;
+};
 
-    return response.text || text;
-  } catch (error) {
-    console.error("Translation error", error);
-    return text;
-  }
-};
\ No newline at end of file
+/**
+ * Screens a public-room message with the local rules and the model. Anything
+ * not rejected comes back with the id of the `screenings` record the message
+ * must be written under. `reason` is written for the sender to read.
+ */
+export const screenMessage = async (text: string, roomId: string): Promise<ModerationVerdict> =>
+  post<ModerationVerdict>("/screen", { text, roomId });
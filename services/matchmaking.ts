@@ -0,0 +1,275 @@
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  QueryConstraint,
+} from "firebase/firestore";
+import { MatchPreference, MatchQueueDoc, Message, SessionDoc, UserProfile } from "../types";
+import { SESSIONS, toMessage } from "./messages";
+import { SendLimits, sendCounted } from "./sendLimits";
+
+// Firestore layout:
+//   matchQueue/{uid}               -> MatchQueueDoc, one entry per waiting user
+//   sessions/{sessionId}           -> SessionDoc
+//   sessions/{sessionId}/messages  -> one-on-one chat messages
+
+const QUEUE = "matchQueue";
+export const SESSION_LIMIT_KEY = "session";
+const CANDIDATE_BATCH = 10;
+// Batches to look through when stale entries crowd out live ones
+const MAX_CANDIDATE_ROUNDS = 3;
+
+// Waiting clients refresh `lastSeen` on this interval. An entry that misses a
+// few beats was left by a closed or crashed tab: it is never paired, and
+// whoever finds it removes it. Keep in step with firestore.rules.
+export const QUEUE_HEARTBEAT_MS = 10000;
+export const QUEUE_STALE_MS = QUEUE_HEARTBEAT_MS * 3;
+
+const isStale = (entry: MatchQueueDoc, now: number) => now - (entry.lastSeen || 0) > QUEUE_STALE_MS;
+
+// How long to wait at one scope before widening STATE -> COUNTRY -> ANYWHERE
+export const MATCH_WIDEN_AFTER_MS =
+  Number(import.meta.env.VITE_MATCH_WIDEN_AFTER_MS) || 15000;
+
+export const widerPreference = (pref: MatchPreference): MatchPreference | null => {
+  switch (pref) {
+    case MatchPreference.STATE:
+      return MatchPreference.COUNTRY;
+    case MatchPreference.COUNTRY:
+      return MatchPreference.ANYWHERE;
+    default:
+      return null;
+  }
+};
+
+const accepts = (a: MatchQueueDoc, b: MatchQueueDoc) => {
+  switch (a.preference) {
+    case MatchPreference.STATE:
+      return a.country === b.country && a.state === b.state;
+    case MatchPreference.COUNTRY:
+      return a.country === b.country;
+    default:
+      return true;
+  }
+};
+
+const scopeConstraints = (entry: MatchQueueDoc): QueryConstraint[] => {
+  switch (entry.preference) {
+    case MatchPreference.STATE:
+      return [where("country", "==", entry.country), where("state", "==", entry.state)];
+    case MatchPreference.COUNTRY:
+      return [where("country", "==", entry.country)];
+    default:
+      return [];
+  }
+};
+
+export const joinQueue = async (
+  db: Firestore,
+  uid: string,
+  profile: UserProfile,
+  preference: MatchPreference
+): Promise<MatchQueueDoc> => {
+  const entry: MatchQueueDoc = {
+    userId: uid,
+    username: profile.username,
+    country: profile.country,
+    state: profile.state,
+    timestamp: Date.now(),
+    lastSeen: Date.now(),
+    preference,
+    sessionId: null,
+  };
+  await setDoc(doc(db, QUEUE, uid), entry);
+  return entry;
+};
+
+export const widenQueueEntry = (db: Firestore, uid: string, preference: MatchPreference) =>
+  updateDoc(doc(db, QUEUE, uid), { preference });
+
+export const leaveQueue = (db: Firestore, uid: string) => deleteDoc(doc(db, QUEUE, uid));
+
+/**
+ * Stops searching. If someone paired us in the meantime, that session is
+ * ended in the same transaction so they aren't left waiting on us.
+ */
+export const cancelSearch = (db: Firestore, uid: string) =>
+  runTransaction(db, async (tx) => {
+    const ref = doc(db, QUEUE, uid);
+    const snap = await tx.get(ref);
+    if (!snap.exists()) return;
+    const { sessionId } = snap.data() as MatchQueueDoc;
+    if (sessionId) tx.update(doc(db, SESSIONS, sessionId), { active: false, endedBy: uid });
+    tx.delete(ref);
+  });
+
+/** Keeps our entry fresh while we wait. Returns a stop function. */
+export const startQueueHeartbeat = (db: Firestore, uid: string) => {
+  const timer = setInterval(() => {
+    updateDoc(doc(db, QUEUE, uid), { lastSeen: Date.now() }).catch(() => {});
+  }, QUEUE_HEARTBEAT_MS);
+  return () => clearInterval(timer);
+};
+
+/**
+ * Tries to pair `entry` with the oldest waiting user that both sides accept
+ * under their current preference. Each attempt runs in a transaction that
+ * re-reads both queue entries, so two clients racing for the same partner
+ * can't both win: the loser sees `sessionId` already set and moves on to the
+ * next candidate. Stale entries are cleared instead of paired.
+ *
+ * Block lists stay private: we skip the uids in our own `blocked`, and
+ * firestore.rules refuse the pairing if the candidate blocked us, which
+ * surfaces here as permission-denied for that candidate. Returns the new
+ * session id, or null if nobody suitable is waiting (we then stay queued
+ * until someone picks us).
+ */
+export const findPartner = async (
+  db: Firestore,
+  entry: MatchQueueDoc,
+  blocked: string[] = []
+): Promise<string | null> => {
+  for (let round = 0; round < MAX_CANDIDATE_ROUNDS; round++) {
+    const waiting = await getDocs(
+      query(
+        collection(db, QUEUE),
+        where("sessionId", "==", null),
+        ...scopeConstraints(entry),
+        orderBy("timestamp", "asc"),
+        limit(CANDIDATE_BATCH)
+      )
+    );
+
+    const now = Date.now();
+    const stale = waiting.docs.filter((d) => d.id !== entry.userId && isStale(d.data() as MatchQueueDoc, now));
+    await Promise.all(stale.map((d) => deleteDoc(d.ref).catch(() => {})));
+
+    const live = waiting.docs.filter((d) => !stale.includes(d)).map((d) => d.data() as MatchQueueDoc);
+    const sessionId = await pairWithFirst(db, entry, live, blocked);
+    if (sessionId) return sessionId;
+
+    // Another batch only helps if stale entries took up room in this one
+    if (stale.length === 0 || waiting.size < CANDIDATE_BATCH) return null;
+  }
+  return null;
+};
+
+const pairWithFirst = async (db: Firestore, entry: MatchQueueDoc, candidates: MatchQueueDoc[], blocked: string[]) => {
+  const uid = entry.userId;
+  for (const candidate of candidates) {
+    if (candidate.userId === uid) continue;
+    if (blocked.includes(candidate.userId)) continue;
+
+    const sessionId = await runTransaction(db, async (tx) => {
+      const mineRef = doc(db, QUEUE, uid);
+      const theirsRef = doc(db, QUEUE, candidate.userId);
+      const [mine, theirs] = [await tx.get(mineRef), await tx.get(theirsRef)];
+
+      if (!mine.exists() || !theirs.exists()) return null;
+      const me = mine.data() as MatchQueueDoc;
+      const them = theirs.data() as MatchQueueDoc;
+      if (me.sessionId || them.sessionId) return null;
+      if (isStale(them, Date.now())) return null;
+      if (!accepts(me, them) || !accepts(them, me)) return null;
+
+      const sessionRef = doc(collection(db, SESSIONS));
+      const session: SessionDoc = {
+        users: [me.userId, them.userId],
+        createdAt: Date.now(),
+        active: true,
+        userProfiles: {
+          [me.userId]: { userId: me.userId, username: me.username, country: me.country, state: me.state },
+          [them.userId]: { userId: them.userId, username: them.username, country: them.country, state: them.state },
+        },
+      };
+
+      tx.set(sessionRef, session);
+      tx.update(mineRef, { sessionId: sessionRef.id });
+      tx.update(theirsRef, { sessionId: sessionRef.id });
+      return sessionRef.id;
+    }).catch((err) => {
+      // They blocked us; try the next candidate
+      if ((err as { code?: string }).code === "permission-denied") return null;
+      throw err;
+    });
+
+    if (sessionId) return sessionId;
+  }
+
+  return null;
+};
+
+/** Fires once our queue entry has been paired, whichever side did the pairing. */
+export const watchQueueEntry = (db: Firestore, uid: string, onMatched: (sessionId: string) => void) =>
+  onSnapshot(doc(db, QUEUE, uid), (snap) => {
+    const entry = snap.data() as MatchQueueDoc | undefined;
+    if (entry?.sessionId) onMatched(entry.sessionId);
+  });
+
+export const watchSession = (db: Firestore, sessionId: string, onChange: (session: SessionDoc) => void) =>
+  onSnapshot(doc(db, SESSIONS, sessionId), (snap) => {
+    if (snap.exists()) onChange(snap.data() as SessionDoc);
+  });
+
+export const watchSessionMessages = (
+  db: Firestore,
+  sessionId: string,
+  uid: string,
+  onMessage: (msg: Message, isNew: boolean) => void
+) =>
+  onSnapshot(
+    query(collection(db, SESSIONS, sessionId, "messages"), orderBy("timestamp", "asc")),
+    (snap) => {
+      snap.docChanges().forEach((c) => {
+        if (c.type === "removed") return;
+        onMessage(toMessage(c.doc.id, c.doc.data(), uid, sessionId), c.type === "added");
+      });
+    }
+  );
+
+// Counted against the sender's limits under the shared "session" key
+export const sendSessionMessage = (
+  db: Firestore,
+  sessionId: string,
+  limits: SendLimits,
+  data: {
+    text: string;
+    sender: string;
+    senderUid: string;
+    replyTo?: Message["replyTo"];
+    attachment?: Message["attachment"];
+    mentions: string[];
+  }
+) =>
+  sendCounted(
+    db,
+    data.senderUid,
+    limits,
+    SESSION_LIMIT_KEY,
+    data.attachment ? "" : data.text,
+    doc(collection(db, SESSIONS, sessionId, "messages")),
+    {
+      text: data.text,
+      sender: data.sender,
+      senderUid: data.senderUid,
+      timestamp: Date.now(),
+      readBy: [],
+      mentions: data.mentions,
+      ...(data.replyTo ? { replyTo: data.replyTo } : {}),
+      ...(data.attachment ? { attachment: data.attachment } : {}),
+    }
+  );
+
+/** Marks the session as over; the partner's `watchSession` sees `active: false`. */
+export const endSession = (db: Firestore, sessionId: string, uid: string) =>
+  updateDoc(doc(db, SESSIONS, sessionId), { active: false, endedBy: uid });
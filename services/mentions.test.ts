@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { MAX_MENTIONS, mentionsUser, resolveMentions } from "./mentions";
+import { Message } from "../types";
+
+const candidates = [
+  { userId: "u1", username: "bob" },
+  { userId: "u2", username: "bob.smith" },
+  { userId: "u3", username: "Ann_99" },
+];
+
+describe("resolveMentions", () => {
+  it("matches whole usernames, case-insensitively", () => {
+    expect(resolveMentions("hi @bob.smith and @ANN_99", candidates)).toEqual(["u2", "u3"]);
+    expect(resolveMentions("@bobby isn't bob", candidates)).toEqual([]);
+  });
+
+  it("drops a trailing dot and ignores email addresses", () => {
+    expect(resolveMentions("thanks @bob.", candidates)).toEqual(["u1"]);
+    expect(resolveMentions("mail me@bob.smith", candidates)).toEqual([]);
+  });
+
+  it("keeps at most MAX_MENTIONS", () => {
+    const many = Array.from({ length: MAX_MENTIONS + 2 }, (_, i) => ({ userId: `u${i}`, username: `user${i}` }));
+    expect(resolveMentions(many.map((c) => `@${c.username}`).join(" "), many)).toHaveLength(MAX_MENTIONS);
+  });
+});
+
+describe("mentionsUser", () => {
+  const msg = (text: string, extra: Partial<Message> = {}): Message => ({
+    id: "m1",
+    sender: "ann",
+    text,
+    timestamp: 0,
+    isMe: false,
+    readBy: [],
+    ...extra,
+  });
+
+  it("trusts resolved mentions and falls back to the text for older messages", () => {
+    expect(mentionsUser(msg("@bob", { mentions: [] }), "u1", "bob")).toBe(false);
+    expect(mentionsUser(msg("hey", { mentions: ["u1"] }), "u1", "bob")).toBe(true);
+    expect(mentionsUser(msg("hey @Bob!"), "u1", "bob")).toBe(true);
+    expect(mentionsUser(msg("hey @bob.smith"), "u1", "bob")).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { Message } from "../types";
+
+export interface MentionCandidate {
+  userId: string;
+  username: string;
+}
+
+// Stored per message at most; firestore.rules checks the same bound
+export const MAX_MENTIONS = 10;
+
+// `@` and a username (USERNAME_PATTERN in services/users.ts: letters, digits,
+// `_` and `.`), without trailing dots so "@bob." ending a sentence is Bob.
+// Not inside a word, so an email address mentions nobody.
+export const MENTION_PATTERN = /(?<![A-Za-z0-9_.])@[A-Za-z0-9_.]*[A-Za-z0-9_]/g;
+
+const mentionedNames = (text: string) =>
+  Array.from(text.matchAll(MENTION_PATTERN), (m) => m[0].slice(1).toLowerCase());
+
+/** Uids of the candidates written as `@username` in `text`, case-insensitively. */
+export const resolveMentions = (text: string, candidates: MentionCandidate[]) => {
+  const byName = new Map(candidates.map((c) => [c.username.toLowerCase(), c.userId]));
+  const ids = new Set<string>();
+
+  for (const name of mentionedNames(text)) {
+    const id = byName.get(name);
+    if (id) ids.add(id);
+  }
+  return Array.from(ids).slice(0, MAX_MENTIONS);
+};
+
+/**
+ * Messages from current clients carry resolved `mentions`; older ones only
+ * have the text, so fall back to looking for `@username` there.
+ */
+export const mentionsUser = (msg: Message, uid: string | null, username: string) => {
+  if (msg.isMe || msg.system || msg.unsent) return false;
+  if (msg.mentions) return !!uid && msg.mentions.includes(uid);
+  return mentionedNames(msg.text).includes(username.toLowerCase());
+};
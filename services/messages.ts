@@ -0,0 +1,271 @@
+import {
+  DocumentData,
+  Firestore,
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { Message, RoomType, UserProfile } from "../types";
+
+// Firestore layout:
+//   messages/{id}                  -> group room messages, keyed by `roomId`
+//   sessions/{sessionId}/messages  -> one-on-one messages (see matchmaking.ts)
+
+export const MESSAGES = "messages";
+export const SESSIONS = "sessions";
+
+export const messageRef = (db: Firestore, messageId: string, sessionId?: string | null) =>
+  sessionId ? doc(db, SESSIONS, sessionId, MESSAGES, messageId) : doc(db, MESSAGES, messageId);
+
+// A room opens with its newest LIVE_WINDOW messages; anything older is paged
+// in HISTORY_PAGE at a time as the user scrolls up. Every loaded range stays
+// subscribed (watchRoomMessages) so unsends, reactions and receipts on old
+// messages still arrive.
+export const LIVE_WINDOW = 50;
+export const HISTORY_PAGE = 50;
+
+// Upper bound for a single history fetch when jumping to an old message
+const MAX_HISTORY_FETCH = 500;
+// Messages loaded above a jump target so it isn't shown without context
+const JUMP_CONTEXT = 5;
+
+export const getRoomId = (type: RoomType, user: UserProfile) => {
+  switch (type) {
+    case RoomType.WORLD:
+      return "WORLD_CHAT";
+    case RoomType.COUNTRY:
+      return `COUNTRY_${user.country}`;
+    case RoomType.STATE:
+      return `STATE_${user.state}_${user.country}`;
+    default:
+      return null;
+  }
+};
+
+export const toMessage = (id: string, d: DocumentData, uid: string, roomId: string): Message => ({
+  id,
+  sender: d.sender,
+  text: d.text,
+  timestamp: d.timestamp,
+  isMe: d.senderUid === uid,
+  senderUid: d.senderUid,
+  readBy: d.readBy || [],
+  ...(d.readReceipts ? { readReceipts: d.readReceipts } : {}),
+  ...(d.reactions && !d.unsent ? { reactions: d.reactions } : {}),
+  ...(d.mentions ? { mentions: d.mentions } : {}),
+  roomId,
+  ...(d.replyTo ? { replyTo: d.replyTo } : {}),
+  ...(d.unsent ? { unsent: true } : {}),
+  ...(d.moderated ? { moderated: true } : {}),
+  ...(d.attachment && !d.unsent ? { attachment: d.attachment } : {}),
+});
+
+// Applies a snapshot change to a room's message list (new or edited message).
+// Client-only fields like translations survive edits, but not an unsend.
+export const upsertMessage = (messages: Message[], msg: Message) => {
+  if (!messages.some((m) => m.id === msg.id)) return mergeMessages(messages, [msg]);
+  return messages.map((m) => {
+    if (m.id !== msg.id) return m;
+    if (msg.unsent) return msg;
+    return { ...msg, translation: m.translation, translationStatus: m.translationStatus };
+  });
+};
+
+// Adds messages not already present, keeping the list in timestamp order
+export const mergeMessages = (messages: Message[], incoming: Message[]) => {
+  const known = new Set(messages.map((m) => m.id));
+  const fresh = incoming.filter((m) => !known.has(m.id));
+  if (fresh.length === 0) return messages;
+
+  const last = messages[messages.length - 1];
+  if (fresh.length === 1 && (!last || last.timestamp <= fresh[0].timestamp)) {
+    return [...messages, fresh[0]];
+  }
+  return [...messages, ...fresh].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Unsend leaves a tombstone rather than deleting, so replies and read state
+ * stay consistent. Works the same for group and one-on-one messages; in both,
+ * firestore.rules (isTombstone) only let the original `senderUid` or a
+ * moderator write it.
+ */
+export const tombstone = {
+  unsent: true,
+  text: "",
+  tokens: [],
+  replyTo: deleteField(),
+  attachment: deleteField(),
+  reactions: deleteField(),
+  mentions: [],
+};
+
+export const unsendMessage = (db: Firestore, messageId: string, sessionId?: string | null) =>
+  updateDoc(messageRef(db, messageId, sessionId), tombstone);
+
+// Reactors per message, like READ_RECEIPT_CAP (also enforced in firestore.rules).
+// Changing or clearing a reaction is always possible.
+export const REACTION_CAP = 50;
+
+export const reactionsFull = (msg: Message) => Object.keys(msg.reactions || {}).length >= REACTION_CAP;
+
+/**
+ * Sets or clears (`emoji` null) the reactor's reaction. Like read receipts,
+ * each user only writes their own `reactions.<uid>` entry.
+ */
+export const setReaction = (
+  db: Firestore,
+  messageId: string,
+  reactor: { uid: string; username: string },
+  emoji: string | null,
+  sessionId?: string | null
+) =>
+  updateDoc(messageRef(db, messageId, sessionId), {
+    [`reactions.${reactor.uid}`]: emoji ? { username: reactor.username, emoji } : deleteField(),
+  });
+
+// Firestore caps a batch at 500 writes; read receipts flush far fewer
+const READ_BATCH_LIMIT = 100;
+
+// A message stores at most this many receipts (also enforced in
+// firestore.rules). Past it readers stop writing, so a busy room doesn't have
+// everyone rewriting every message doc; the UI shows "Seen by 50+".
+export const READ_RECEIPT_CAP = 50;
+
+export const receiptsFull = (msg: Message) => Object.keys(msg.readReceipts || {}).length >= READ_RECEIPT_CAP;
+
+/**
+ * Records that `reader` has seen the messages. Each reader only ever touches
+ * its own `readReceipts.<uid>` entry, which is what the security rules allow.
+ * Callers skip messages that are already `receiptsFull`.
+ */
+export const markRead = async (
+  db: Firestore,
+  messageIds: string[],
+  reader: { uid: string; username: string },
+  sessionId?: string | null
+) => {
+  for (let i = 0; i < messageIds.length; i += READ_BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    messageIds.slice(i, i + READ_BATCH_LIMIT).forEach((id) =>
+      batch.update(messageRef(db, id, sessionId), {
+        [`readReceipts.${reader.uid}`]: { username: reader.username, at: Date.now() },
+      })
+    );
+    await batch.commit();
+  }
+};
+
+/**
+ * Where a room's live tail starts: the timestamp of the oldest of its newest
+ * LIVE_WINDOW messages, or 0 if that's the whole room.
+ */
+export const findLiveStart = async (db: Firestore, roomId: string) => {
+  const snap = await getDocs(
+    query(collection(db, MESSAGES), where("roomId", "==", roomId), orderBy("timestamp", "desc"), limit(LIVE_WINDOW))
+  );
+  const hasMoreHistory = snap.size >= LIVE_WINDOW;
+  return { from: hasMoreHistory ? (snap.docs[snap.size - 1].data().timestamp as number) : 0, hasMoreHistory };
+};
+
+/**
+ * Follows a room's messages timestamped in [from, to), or from `from` on when
+ * `to` is omitted. Messages are only ever tombstoned, never deleted, so every
+ * change is an arrival or an edit. `initial` marks the first snapshot.
+ */
+export const watchRoomMessages = (
+  db: Firestore,
+  roomId: string,
+  uid: string,
+  range: { from: number; to?: number },
+  onMessages: (changes: { msg: Message; isNew: boolean }[], initial: boolean) => void
+) => {
+  let initial = true;
+  return onSnapshot(
+    query(
+      collection(db, MESSAGES),
+      where("roomId", "==", roomId),
+      where("timestamp", ">=", range.from),
+      ...(range.to === undefined ? [] : [where("timestamp", "<", range.to)]),
+      orderBy("timestamp", "asc")
+    ),
+    (snap) => {
+      const changes = snap
+        .docChanges()
+        .filter((c) => c.type !== "removed")
+        .map((c) => ({ msg: toMessage(c.doc.id, c.doc.data(), uid, roomId), isNew: c.type === "added" }));
+      onMessages(changes, initial);
+      initial = false;
+    }
+  );
+};
+
+/** One page of history older than `before`, oldest first. */
+export const loadOlderMessages = async (
+  db: Firestore,
+  roomId: string,
+  before: number,
+  uid: string
+): Promise<Message[]> => {
+  const snap = await getDocs(
+    query(
+      collection(db, MESSAGES),
+      where("roomId", "==", roomId),
+      orderBy("timestamp", "desc"),
+      startAfter(before),
+      limit(HISTORY_PAGE)
+    )
+  );
+  return snap.docs.map((d) => toMessage(d.id, d.data(), uid, roomId)).reverse();
+};
+
+/**
+ * Loads the gap between an older message and the oldest one we already have,
+ * so jumping to a quoted message or search hit keeps the room history
+ * contiguous, plus a few messages of context above it. Returns
+ * null if the message doesn't exist in this room or is too far back.
+ */
+export const loadHistoryFrom = async (
+  db: Firestore,
+  roomId: string,
+  messageId: string,
+  before: number,
+  uid: string
+): Promise<Message[] | null> => {
+  const target = await getDoc(doc(db, MESSAGES, messageId));
+  if (!target.exists() || target.data().roomId !== roomId) return null;
+
+  const snap = await getDocs(
+    query(
+      collection(db, MESSAGES),
+      where("roomId", "==", roomId),
+      where("timestamp", ">=", target.data().timestamp),
+      where("timestamp", "<", before),
+      orderBy("timestamp", "asc"),
+      limit(MAX_HISTORY_FETCH + 1)
+    )
+  );
+  if (snap.size > MAX_HISTORY_FETCH) return null;
+
+  const context = await getDocs(
+    query(
+      collection(db, MESSAGES),
+      where("roomId", "==", roomId),
+      orderBy("timestamp", "desc"),
+      startAfter(target.data().timestamp),
+      limit(JUMP_CONTEXT)
+    )
+  );
+
+  return [...context.docs.reverse(), ...snap.docs].map((d) => toMessage(d.id, d.data(), uid, roomId));
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { ReportContextMessage, ReportDoc, RoomType } from "../types";
+import { suspensionTarget } from "./moderation";
+
+const report = (extra: Partial<ReportDoc> = {}): ReportDoc => ({
+  reporterUid: "alice",
+  reporterName: "alice",
+  targetUid: "bob",
+  targetUsername: "bob",
+  messageId: "m1",
+  roomType: RoomType.WORLD,
+  roomId: "WORLD_CHAT",
+  sessionId: null,
+  reason: "spam",
+  details: "",
+  contextIds: ["m0", "m1"],
+  createdAt: 0,
+  status: "open",
+  ...extra,
+});
+
+const message = (id: string, senderUid: string): ReportContextMessage => ({ id, sender: senderUid, senderUid, text: "hi", timestamp: 0 });
+
+describe("suspensionTarget", () => {
+  it("takes the reported message's sender over the report's target", () => {
+    const context = [message("m0", "bob"), message("m1", "carol")];
+    expect(suspensionTarget(report(), context)).toEqual({ uid: "carol", username: "carol" });
+  });
+
+  it("needs the reported message, or for a user report one of the target's", () => {
+    expect(suspensionTarget(report(), [message("m0", "bob")])).toBeNull();
+    expect(suspensionTarget(report({ messageId: null }), [message("m0", "bob")])).toEqual({ uid: "bob", username: "bob" });
+    expect(suspensionTarget(report({ messageId: null }), [message("m0", "carol")])).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import { User } from "firebase/auth";
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import {
+  HeldMessageDoc,
+  Message,
+  ReportContextMessage,
+  ReportDoc,
+  ReportReason,
+  SuspensionDoc,
+} from "../types";
+import { MESSAGES, SESSIONS, messageRef, tombstone } from "./messages";
+
+// Firestore layout:
+//   reports/{id}       -> ReportDoc; create-only for users, moderators review.
+//                         Context is stored as message ids only, so a report
+//                         can't put words in anyone's mouth.
+//   suspensions/{uid}  -> SuspensionDoc; written by moderators, readable by its uid
+//   moderators/{uid}   -> allowlist entry (alternative to a `moderator` custom claim)
+//   heldMessages/{id}  -> HeldMessageDoc; public-room messages held by screening (moderationRules.ts)
+
+const REPORTS = "reports";
+const HELD_MESSAGES = "heldMessages";
+const SUSPENSIONS = "suspensions";
+const MODERATORS = "moderators";
+
+// Messages kept on either side of the reported one
+const REPORT_CONTEXT = 5;
+const REVIEW_LIMIT = 100;
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam or scam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "hate", label: "Hate speech" },
+  { value: "sexual", label: "Sexual content" },
+  { value: "violence", label: "Violence or threats" },
+  { value: "other", label: "Something else" },
+];
+
+export const SUSPEND_OPTIONS: { label: string; durationMs: number }[] = [
+  { label: "1 hour", durationMs: 60 * 60 * 1000 },
+  { label: "1 day", durationMs: 24 * 60 * 60 * 1000 },
+  { label: "7 days", durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { label: "30 days", durationMs: 30 * 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Which messages the moderator needs to judge a report: the ones around the
+ * reported message, or the target's latest messages when reporting a user.
+ */
+export const reportContextIds = (messages: Message[], messageId: string | null, targetUid: string) => {
+  const real = messages.filter((m) => !m.system);
+  if (messageId) {
+    const idx = real.findIndex((m) => m.id === messageId);
+    if (idx !== -1) return real.slice(Math.max(0, idx - REPORT_CONTEXT), idx + REPORT_CONTEXT + 1).map((m) => m.id);
+  }
+  return real
+    .filter((m) => m.senderUid === targetUid)
+    .slice(-(REPORT_CONTEXT * 2))
+    .map((m) => m.id);
+};
+
+/**
+ * Files the report. A one-on-one report also flags its session, which is what
+ * lets moderators read that session's messages.
+ */
+export const submitReport = async (
+  db: Firestore,
+  report: Omit<ReportDoc, "id" | "createdAt" | "status">
+) => {
+  const batch = writeBatch(db);
+  const ref = doc(collection(db, REPORTS));
+  batch.set(ref, { ...report, createdAt: Date.now(), status: "open" });
+  if (report.sessionId) batch.update(doc(db, SESSIONS, report.sessionId), { reported: true, lastReportId: ref.id });
+  await batch.commit();
+};
+
+/** The report's context messages as they are now, oldest first; missing ones are skipped. */
+export const loadReportContext = async (db: Firestore, report: ReportDoc): Promise<ReportContextMessage[]> => {
+  const snaps = await Promise.all(report.contextIds.map((id) => getDoc(messageRef(db, id, report.sessionId))));
+  return snaps
+    .filter((s) => s.exists())
+    .map((s) => {
+      const d = s.data()!;
+      return {
+        id: s.id,
+        sender: d.sender,
+        ...(d.senderUid ? { senderUid: d.senderUid } : {}),
+        text: d.unsent ? "" : d.text,
+        timestamp: d.timestamp,
+      };
+    });
+};
+
+/**
+ * Who a suspension would hit, taken from the loaded messages rather than the
+ * report: the reported message's sender, or for a user report the target
+ * once one of the captured messages shows them. Null when nothing does.
+ */
+export const suspensionTarget = (report: ReportDoc, context: ReportContextMessage[]) => {
+  const evidence = report.messageId
+    ? context.find((m) => m.id === report.messageId)
+    : context.find((m) => m.senderUid === report.targetUid);
+  return evidence?.senderUid ? { uid: evidence.senderUid, username: evidence.sender } : null;
+};
+
+/* ---------------- MODERATORS ---------------- */
+
+export const checkModerator = async (db: Firestore, user: User) => {
+  const token = await user.getIdTokenResult();
+  if (token.claims.moderator === true) return true;
+  return (await getDoc(doc(db, MODERATORS, user.uid))).exists();
+};
+
+export const watchOpenReports = (db: Firestore, onChange: (reports: ReportDoc[]) => void) =>
+  onSnapshot(
+    query(
+      collection(db, REPORTS),
+      where("status", "==", "open"),
+      orderBy("createdAt", "desc"),
+      limit(REVIEW_LIMIT)
+    ),
+    (snap) => onChange(snap.docs.map((d) => ({ ...(d.data() as ReportDoc), id: d.id })))
+  );
+
+const resolveReport = (db: Firestore, reportId: string, moderatorUid: string, status: ReportDoc["status"]) =>
+  updateDoc(doc(db, REPORTS, reportId), { status, resolvedBy: moderatorUid, resolvedAt: Date.now() });
+
+export const dismissReport = (db: Firestore, report: ReportDoc, moderatorUid: string) =>
+  resolveReport(db, report.id!, moderatorUid, "dismissed");
+
+/** Tombstones the reported message like an unsend, marked as a moderator removal. */
+export const deleteReportedMessage = async (db: Firestore, report: ReportDoc, moderatorUid: string) => {
+  if (!report.messageId) return;
+  await updateDoc(messageRef(db, report.messageId, report.sessionId), { ...tombstone, moderated: true });
+  await resolveReport(db, report.id!, moderatorUid, "actioned");
+};
+
+/** Suspends `uid`, which should come from suspensionTarget, and closes the report. */
+export const suspendUser = async (
+  db: Firestore,
+  report: ReportDoc,
+  uid: string,
+  moderatorUid: string,
+  durationMs: number
+) => {
+  const suspension: SuspensionDoc = {
+    until: Date.now() + durationMs,
+    reason: report.reason,
+    by: moderatorUid,
+    at: Date.now(),
+  };
+  await setDoc(doc(db, SUSPENSIONS, uid), suspension);
+  await resolveReport(db, report.id!, moderatorUid, "actioned");
+};
+
+/* ---------------- HELD MESSAGES ---------------- */
+
+// Held messages count against send limits like any other, so the caller
+// writes one through `sendCounted`, under the id of the screening that held it
+export const heldMessageRef = (db: Firestore, screeningId: string) => doc(db, HELD_MESSAGES, screeningId);
+
+export const watchHeldMessages = (db: Firestore, onChange: (held: HeldMessageDoc[]) => void) =>
+  onSnapshot(
+    query(collection(db, HELD_MESSAGES), orderBy("heldAt", "asc"), limit(REVIEW_LIMIT)),
+    (snap) => onChange(snap.docs.map((d) => ({ ...(d.data() as HeldMessageDoc), id: d.id })))
+  );
+
+/**
+ * Publishes a held message as if it had just been sent, and clears it from
+ * the queue. The rules only accept it under the held message's id, unchanged.
+ */
+export const approveHeldMessage = async (db: Firestore, held: HeldMessageDoc) => {
+  const batch = writeBatch(db);
+  batch.set(doc(db, MESSAGES, held.id!), { ...held.message, timestamp: Date.now() });
+  batch.delete(doc(db, HELD_MESSAGES, held.id!));
+  await batch.commit();
+};
+
+export const discardHeldMessage = (db: Firestore, held: HeldMessageDoc) =>
+  deleteDoc(doc(db, HELD_MESSAGES, held.id!));
+
+/** Streams the user's own suspension; null when there is none or it has run out. */
+export const watchSuspension = (db: Firestore, uid: string, onChange: (suspension: SuspensionDoc | null) => void) =>
+  onSnapshot(doc(db, SUSPENSIONS, uid), (snap) => {
+    const data = snap.data() as SuspensionDoc | undefined;
+    onChange(data && data.until > Date.now() ? data : null);
+  });
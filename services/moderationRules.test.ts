@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, PHONE_NUMBER, createRulesStage } from "./moderationRules";
+
+describe("PHONE_NUMBER", () => {
+  it.each(["555-123-4567", "(555) 123-4567", "+44 20 7946 0958", "+1 (555) 123-4567", "06 12 34 56 78", "5551234567"])(
+    "matches %s",
+    (text) => expect(PHONE_NUMBER.test(`call me on ${text}`)).toBe(true)
+  );
+
+  it.each(["2024-10-19 12:30", "meet at 10:30 on 19.10.2024", "it cost 1,250.00", "order #12345678", "room 404, floor 12"])(
+    "ignores %s",
+    (text) => expect(PHONE_NUMBER.test(text)).toBe(false)
+  );
+});
+
+describe("createRulesStage", () => {
+  const rules = createRulesStage(DEFAULT_RULES);
+
+  it("holds contact details but not dates", async () => {
+    expect((await rules.check("text me at 555.123.4567")).action).toBe("hold");
+    expect((await rules.check("see you 2024-10-19 at 12:30")).action).toBe("allow");
+  });
+});
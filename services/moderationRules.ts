@@ -0,0 +1,143 @@
+import { BLOCKED_PHRASES, MASKED_WORDS } from "../data/wordlist";
+
+// The moderation pipeline without anything browser-specific, so the proxy
+// (server.ts) runs exactly the same local rules when it screens a message.
+// Each stage sees the text as left by the previous one (so a classifier gets
+// already-masked text), and the strictest action wins:
+//   allow  -> posted as typed
+//   mask   -> posted with the offending words starred out
+//   hold   -> parked in `heldMessages` until a moderator approves it
+//   reject -> not posted; the sender is told why
+
+export type ModerationAction = "allow" | "mask" | "hold" | "reject";
+
+export interface StageResult {
+  action: ModerationAction;
+  text?: string; // Replacement text, for "mask"
+  reason?: string; // Shown to the sender, and to moderators for held messages
+}
+
+export interface ModerationVerdict {
+  action: ModerationAction;
+  text: string;
+  reason?: string;
+  source?: string; // Stage that decided a hold or reject
+  id?: string; // screenings/{id} recorded by the proxy; the message must use this id
+}
+
+export interface ModerationStage {
+  name: string;
+  check: (text: string) => Promise<StageResult>;
+}
+
+/* ---------------- LOCAL RULES ---------------- */
+
+export interface ModerationRule {
+  pattern: RegExp; // Must be global for "mask"
+  action: Exclude<ModerationAction, "allow">;
+  reason: string;
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole words only, so "shitake" or "Dickens" stay untouched
+const wordPattern = (words: string[]) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "giu");
+
+// Phone numbers by shape, so dates, times and prices ("2024-10-19 12:30")
+// don't count as contact details
+const PHONE_SHAPES = [
+  "\\+\\d{1,3}[\\s.-]?\\(?\\d{1,4}\\)?(?:[\\s.-]?\\d{2,4}){2,4}", // +44 20 7946 0958, +1 (555) 123-4567
+  "\\(?\\d{3}\\)?[\\s.-]?\\d{3}[\\s.-]?\\d{4}", // (555) 123-4567, 555.123.4567
+  "0\\d(?:[\\s.-]?\\d{2}){4}", // 06 12 34 56 78
+  "\\d{10,15}", // 5551234567
+];
+export const PHONE_NUMBER = new RegExp(PHONE_SHAPES.map((p) => `(?<![\\d+])${p}(?!\\d)`).join("|"));
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.]{2,}/;
+
+export const DEFAULT_RULES: ModerationRule[] = [
+  {
+    pattern: wordPattern(BLOCKED_PHRASES),
+    action: "reject",
+    reason: "Telling people to hurt themselves isn't allowed",
+  },
+  {
+    pattern: /(.)\1{14,}/u,
+    action: "reject",
+    reason: "Looks like spam (too many repeated characters)",
+  },
+  {
+    pattern: /https?:\/\/|www\.[^\s]+\.[a-z]{2,}/i,
+    action: "hold",
+    reason: "Links in public rooms are checked by a moderator first",
+  },
+  {
+    pattern: new RegExp(`${EMAIL.source}|${PHONE_NUMBER.source}`),
+    action: "hold",
+    reason: "Contact details in public rooms are checked by a moderator first",
+  },
+  {
+    pattern: wordPattern(MASKED_WORDS),
+    action: "mask",
+    reason: "Profanity",
+  },
+];
+
+/** Wordlist and regex checks; no network. */
+export const createRulesStage = (rules: ModerationRule[]): ModerationStage => ({
+  name: "rules",
+  check: async (text) => {
+    let masked = text;
+    let held: ModerationRule | null = null;
+
+    for (const rule of rules) {
+      rule.pattern.lastIndex = 0;
+      if (!rule.pattern.test(masked)) continue;
+      if (rule.action === "reject") return { action: "reject", reason: rule.reason };
+      if (rule.action === "hold") {
+        held = held || rule;
+        continue;
+      }
+      masked = masked.replace(rule.pattern, (word) => "*".repeat(word.length));
+    }
+
+    if (held) return { action: "hold", text: masked, reason: held.reason };
+    return masked === text ? { action: "allow" } : { action: "mask", text: masked };
+  },
+});
+
+/* ---------------- PIPELINE ---------------- */
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, mask: 1, hold: 2, reject: 3 };
+
+/**
+ * Runs `text` through every stage. A reject short-circuits; otherwise the
+ * strictest action seen wins and masking carries through. A stage that throws
+ * (say the model is down) is skipped rather than blocking chat; the local
+ * rules have already run by then.
+ */
+export const runStages = async (stages: ModerationStage[], text: string): Promise<ModerationVerdict> => {
+  let verdict: ModerationVerdict = { action: "allow", text };
+
+  for (const stage of stages) {
+    let result: StageResult;
+    try {
+      result = await stage.check(verdict.text);
+    } catch (err) {
+      console.warn(`Moderation stage "${stage.name}" failed`, err);
+      continue;
+    }
+
+    if (result.action === "reject") {
+      return { action: "reject", text: verdict.text, reason: result.reason, source: stage.name };
+    }
+    const next = result.text ?? verdict.text;
+    if (SEVERITY[result.action] > SEVERITY[verdict.action]) {
+      verdict = { action: result.action, text: next, reason: result.reason, source: stage.name };
+    } else {
+      verdict = { ...verdict, text: next };
+    }
+  }
+
+  return verdict;
+};
@@ -0,0 +1,86 @@
+// Desktop notifications and the unread badge in the tab title / favicon.
+// Notifications are opt-in per browser, so the choice lives in localStorage.
+
+const OPT_IN_KEY = "plyxor_notifications";
+const APP_TITLE = "Plyxor";
+
+export const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export const isNotificationOptIn = () =>
+  notificationsSupported() &&
+  Notification.permission === "granted" &&
+  localStorage.getItem(OPT_IN_KEY) === "1";
+
+/** Returns whether notifications ended up enabled (the user may deny permission). */
+export const setNotificationOptIn = async (enabled: boolean) => {
+  if (!enabled || !notificationsSupported()) {
+    localStorage.removeItem(OPT_IN_KEY);
+    return false;
+  }
+  const permission =
+    Notification.permission === "granted" ? "granted" : await Notification.requestPermission();
+  if (permission !== "granted") return false;
+  localStorage.setItem(OPT_IN_KEY, "1");
+  return true;
+};
+
+export const showMessageNotification = (opts: {
+  title: string;
+  body: string;
+  tag: string;
+  onClick: () => void;
+}) => {
+  if (!isNotificationOptIn()) return;
+  const notification = new Notification(opts.title, { body: opts.body, tag: opts.tag });
+  notification.onclick = () => {
+    window.focus();
+    opts.onClick();
+    notification.close();
+  };
+};
+
+/* ---------------- UNREAD BADGE ---------------- */
+
+let faviconLink: HTMLLinkElement | null = null;
+
+const drawFavicon = (count: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = 64;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.fillStyle = "#3b82f6";
+  ctx.beginPath();
+  ctx.arc(32, 32, 28, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 36px Inter, sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("P", 32, 34);
+
+  if (count > 0) {
+    ctx.fillStyle = "#ef4444";
+    ctx.beginPath();
+    ctx.arc(46, 18, 18, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#fff";
+    ctx.font = "bold 22px Inter, sans-serif";
+    ctx.fillText(count > 9 ? "9+" : String(count), 46, 19);
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+export const setUnreadBadge = (count: number) => {
+  document.title = count > 0 ? `(${count}) ${APP_TITLE}` : APP_TITLE;
+
+  const href = drawFavicon(count);
+  if (!href) return;
+  if (!faviconLink) {
+    faviconLink = document.createElement("link");
+    faviconLink.rel = "icon";
+    document.head.appendChild(faviconLink);
+  }
+  faviconLink.href = href;
+};
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Firestore } from "firebase/firestore";
+import { OnlineUserDoc } from "../types";
+import { PRESENCE_HEARTBEAT_MS, PRESENCE_TIMEOUT_MS, isOnline, startPresence, watchOnlineUsers } from "./presence";
+
+// Firestore is faked: writes are recorded and onSnapshot hands the test a
+// way to push snapshots
+const fake = vi.hoisted(() => ({
+  writes: [] as { op: "set" | "delete"; path: string; data?: unknown }[],
+  pushSnapshot: (_users: unknown[]) => {},
+}));
+const writes = fake.writes;
+const pushSnapshot = (users: OnlineUserDoc[]) => fake.pushSnapshot(users);
+
+vi.mock("firebase/firestore", () => ({
+  collection: (_db: unknown, path: string) => ({ path }),
+  doc: (_db: unknown, ...segments: string[]) => ({ path: segments.join("/") }),
+  query: (ref: unknown) => ref,
+  where: () => null,
+  setDoc: async (ref: { path: string }, data: unknown) => {
+    fake.writes.push({ op: "set", path: ref.path, data });
+  },
+  deleteDoc: async (ref: { path: string }) => {
+    fake.writes.push({ op: "delete", path: ref.path });
+  },
+  onSnapshot: (_q: unknown, next: (snap: unknown) => void) => {
+    fake.pushSnapshot = (users) => next({ docs: users.map((u) => ({ data: () => u })) });
+    return () => {};
+  },
+}));
+
+/** A clock that only moves when the test says so. */
+const createFakeClock = (start = 1_000_000) => {
+  let now = start;
+  let nextHandle = 1;
+  const timers = new Map<number, { fn: () => void; ms: number; due: number }>();
+
+  return {
+    now: () => now,
+    setInterval: (fn: () => void, ms: number) => {
+      const handle = nextHandle++;
+      timers.set(handle, { fn, ms, due: now + ms });
+      return handle;
+    },
+    clearInterval: (handle: unknown) => {
+      timers.delete(handle as number);
+    },
+    advance(ms: number) {
+      const end = now + ms;
+      for (;;) {
+        const next = [...timers.values()].filter((t) => t.due <= end).sort((a, b) => a.due - b.due)[0];
+        if (!next) break;
+        now = next.due;
+        next.due += next.ms;
+        next.fn();
+      }
+      now = end;
+    },
+    activeTimers: () => timers.size,
+  };
+};
+
+const profile = { userId: "alice", username: "alice", country: "Canada", state: "Ontario" };
+const db = {} as Firestore;
+
+let page: EventTarget & { visibilityState: string };
+
+beforeEach(() => {
+  writes.length = 0;
+  page = Object.assign(new EventTarget(), { visibilityState: "visible" });
+  vi.stubGlobal("document", page);
+  vi.stubGlobal("window", new EventTarget());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const setVisibility = (state: "visible" | "hidden") => {
+  page.visibilityState = state;
+  page.dispatchEvent(new Event("visibilitychange"));
+};
+
+describe("isOnline", () => {
+  it("expires users once they miss the timeout", () => {
+    const user = { ...profile, lastActive: 0 };
+    expect(isOnline(user, PRESENCE_TIMEOUT_MS - 1)).toBe(true);
+    expect(isOnline(user, PRESENCE_TIMEOUT_MS)).toBe(false);
+  });
+});
+
+describe("startPresence", () => {
+  it("heartbeats lastActive on every interval while visible", () => {
+    const clock = createFakeClock();
+    startPresence(db, profile, clock);
+    expect(writes).toEqual([{ op: "set", path: "onlineUsers/alice", data: { ...profile, lastActive: 1_000_000 } }]);
+
+    clock.advance(PRESENCE_HEARTBEAT_MS * 2);
+    expect(writes.map((w) => (w.data as OnlineUserDoc).lastActive)).toEqual([
+      1_000_000,
+      1_000_000 + PRESENCE_HEARTBEAT_MS,
+      1_000_000 + PRESENCE_HEARTBEAT_MS * 2,
+    ]);
+  });
+
+  it("goes offline while hidden and comes back when visible", () => {
+    const clock = createFakeClock();
+    startPresence(db, profile, clock);
+    writes.length = 0;
+
+    setVisibility("hidden");
+    expect(writes).toEqual([{ op: "delete", path: "onlineUsers/alice" }]);
+    expect(clock.activeTimers()).toBe(0);
+
+    clock.advance(PRESENCE_HEARTBEAT_MS * 3);
+    expect(writes).toHaveLength(1);
+
+    setVisibility("visible");
+    expect(writes[1]).toMatchObject({ op: "set", data: { lastActive: clock.now() } });
+    expect(clock.activeTimers()).toBe(1);
+  });
+
+  it("does not start a heartbeat for a hidden tab", () => {
+    page.visibilityState = "hidden";
+    const clock = createFakeClock();
+    startPresence(db, profile, clock);
+    clock.advance(PRESENCE_HEARTBEAT_MS);
+    expect(writes).toEqual([]);
+  });
+
+  it("removes the entry on pagehide and on stop", () => {
+    const clock = createFakeClock();
+    const stop = startPresence(db, profile, clock);
+    writes.length = 0;
+
+    (window as unknown as EventTarget).dispatchEvent(new Event("pagehide"));
+    expect(writes).toEqual([{ op: "delete", path: "onlineUsers/alice" }]);
+
+    stop();
+    expect(clock.activeTimers()).toBe(0);
+    // Listeners are gone, so becoming visible again writes nothing
+    setVisibility("visible");
+    expect(writes.filter((w) => w.op === "set")).toEqual([]);
+  });
+});
+
+describe("watchOnlineUsers", () => {
+  it("drops users whose heartbeat went stale without a new snapshot", () => {
+    const clock = createFakeClock();
+    const seen: string[][] = [];
+    const stop = watchOnlineUsers(db, (users) => seen.push(users.map((u) => u.userId)), clock);
+
+    pushSnapshot([
+      { ...profile, lastActive: clock.now() },
+      { ...profile, userId: "bob", username: "bob", lastActive: clock.now() - PRESENCE_TIMEOUT_MS + PRESENCE_HEARTBEAT_MS },
+    ]);
+    expect(seen.at(-1)).toEqual(["alice", "bob"]);
+
+    clock.advance(PRESENCE_HEARTBEAT_MS);
+    expect(seen.at(-1)).toEqual(["alice"]);
+
+    clock.advance(PRESENCE_TIMEOUT_MS);
+    expect(seen.at(-1)).toEqual([]);
+
+    stop();
+    expect(clock.activeTimers()).toBe(0);
+  });
+});
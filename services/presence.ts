@@ -0,0 +1,114 @@
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  query,
+  setDoc,
+  where,
+} from "firebase/firestore";
+import { OnlineUserDoc } from "../types";
+
+// Firestore layout: onlineUsers/{uid} -> OnlineUserDoc
+
+const ONLINE_USERS = "onlineUsers";
+
+export const PRESENCE_HEARTBEAT_MS = 30000;
+// A user who misses this many ms of heartbeats is treated as offline
+export const PRESENCE_TIMEOUT_MS = PRESENCE_HEARTBEAT_MS * 3;
+
+/** Time source for presence, swappable for a fake clock in tests. */
+export interface PresenceClock {
+  now: () => number;
+  setInterval: (fn: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
+}
+
+export const systemClock: PresenceClock = {
+  now: () => Date.now(),
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+export const isOnline = (user: OnlineUserDoc, now: number) =>
+  now - user.lastActive < PRESENCE_TIMEOUT_MS;
+
+/**
+ * Publishes our presence: heartbeats `lastActive` while the tab is visible,
+ * drops the entry while hidden and on unload. Returns a stop function that
+ * also removes the entry.
+ */
+export const startPresence = (
+  db: Firestore,
+  profile: Omit<OnlineUserDoc, "lastActive">,
+  clock: PresenceClock = systemClock
+) => {
+  const ref = doc(db, ONLINE_USERS, profile.userId);
+  let timer: unknown = null;
+
+  const beat = () => {
+    const entry: OnlineUserDoc = { ...profile, lastActive: clock.now() };
+    setDoc(ref, entry).catch((err) => console.error("Presence error", err));
+  };
+
+  const goOnline = () => {
+    if (timer !== null) return;
+    beat();
+    timer = clock.setInterval(beat, PRESENCE_HEARTBEAT_MS);
+  };
+
+  const goOffline = () => {
+    if (timer !== null) {
+      clock.clearInterval(timer);
+      timer = null;
+    }
+    deleteDoc(ref).catch(() => {});
+  };
+
+  const handleVisibility = () => {
+    if (document.visibilityState === "visible") goOnline();
+    else goOffline();
+  };
+
+  document.addEventListener("visibilitychange", handleVisibility);
+  window.addEventListener("pagehide", goOffline);
+  if (document.visibilityState === "visible") goOnline();
+
+  return () => {
+    document.removeEventListener("visibilitychange", handleVisibility);
+    window.removeEventListener("pagehide", goOffline);
+    goOffline();
+  };
+};
+
+/**
+ * Streams everyone currently online. Entries whose owner vanished without
+ * cleaning up (crash, lost network) stay in the snapshot, so the list is
+ * re-filtered against the clock on every heartbeat tick as well.
+ */
+export const watchOnlineUsers = (
+  db: Firestore,
+  onChange: (users: OnlineUserDoc[]) => void,
+  clock: PresenceClock = systemClock
+) => {
+  let latest: OnlineUserDoc[] = [];
+  const emit = () => onChange(latest.filter((u) => isOnline(u, clock.now())));
+
+  const unsub = onSnapshot(
+    query(
+      collection(db, ONLINE_USERS),
+      where("lastActive", ">", clock.now() - PRESENCE_TIMEOUT_MS)
+    ),
+    (snap) => {
+      latest = snap.docs.map((d) => d.data() as OnlineUserDoc);
+      emit();
+    }
+  );
+  const timer = clock.setInterval(emit, PRESENCE_HEARTBEAT_MS);
+
+  return () => {
+    unsub();
+    clock.clearInterval(timer);
+  };
+};
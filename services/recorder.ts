@@ -0,0 +1,64 @@
+// Voice notes are recorded at a fixed low bitrate so the upload size tracks
+// the duration; storage.rules can check size but not length.
+
+export const MAX_VOICE_DURATION_MS = 60_000;
+// Holds shorter than this are treated as an accidental tap
+export const MIN_VOICE_DURATION_MS = 500;
+export const VOICE_BITS_PER_SECOND = 32_000;
+
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+export interface VoiceRecording {
+  blob: Blob;
+  durationMs: number;
+}
+
+export interface VoiceRecorder {
+  startedAt: number;
+  stop: () => Promise<VoiceRecording>;
+  cancel: () => void;
+}
+
+export const voiceRecordingSupported = () =>
+  typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Asks for the microphone and starts recording. `onLimit` fires once
+ * MAX_VOICE_DURATION_MS is reached; the caller decides whether to `stop`.
+ */
+export const startVoiceRecording = async (onLimit: () => void): Promise<VoiceRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = MIME_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: VOICE_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+
+  const startedAt = Date.now();
+  const limitTimer = setTimeout(onLimit, MAX_VOICE_DURATION_MS);
+  const release = () => {
+    clearTimeout(limitTimer);
+    stream.getTracks().forEach((t) => t.stop());
+  };
+  recorder.start();
+
+  return {
+    startedAt,
+    stop: () =>
+      new Promise((resolve) => {
+        const durationMs = Math.min(Date.now() - startedAt, MAX_VOICE_DURATION_MS);
+        recorder.onstop = () => {
+          release();
+          const type = (recorder.mimeType || "audio/webm").split(";")[0];
+          resolve({ blob: new Blob(chunks, { type }), durationMs });
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      release();
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import {
+  Firestore,
+  QueryConstraint,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+} from "firebase/firestore";
+import { ChatRoom, Message, RoomType, UserProfile } from "../types";
+import { MESSAGES, getRoomId, toMessage } from "./messages";
+import { resolveUsername } from "./users";
+
+// Group messages carry a `tokens` array written alongside the text (see
+// `tokenize`), which is what the Firestore search queries against. Matching
+// is on whole words, the same way in memory and in Firestore.
+
+const MAX_TOKENS = 50;
+const SEARCH_LIMIT = 50;
+
+export interface SearchQuery {
+  text: string;
+  roomTypes: RoomType[];
+  sender?: string; // Username as typed
+  senderUid?: string; // `sender` resolved to its current holder; matched instead of the display name
+  from?: number; // inclusive, ms
+  to?: number; // inclusive, ms
+}
+
+export interface SearchResult {
+  roomType: RoomType;
+  message: Message;
+}
+
+export interface SearchService {
+  search: (q: SearchQuery) => Promise<SearchResult[]>;
+}
+
+export const tokenize = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((t) => t.length >= 2)
+    )
+  ).slice(0, MAX_TOKENS);
+
+const matches = (msg: Message, tokens: string[], q: SearchQuery) => {
+  if (msg.unsent || msg.system || msg.attachment || !msg.text) return false;
+  if (q.senderUid ? msg.senderUid !== q.senderUid : q.sender && msg.sender !== q.sender) return false;
+  if (q.from !== undefined && msg.timestamp < q.from) return false;
+  if (q.to !== undefined && msg.timestamp > q.to) return false;
+  const own = tokenize(msg.text);
+  return tokens.every((t) => own.includes(t));
+};
+
+const newestFirst = (a: SearchResult, b: SearchResult) => b.message.timestamp - a.message.timestamp;
+
+/** Searches whatever is loaded in memory. Used in demo mode and for one-on-one chats. */
+export const createLocalSearch = (rooms: Record<RoomType, ChatRoom>): SearchService => ({
+  search: async (q) => {
+    const tokens = tokenize(q.text);
+    return q.roomTypes
+      .flatMap((roomType) =>
+        rooms[roomType].messages
+          .filter((message) => matches(message, tokens, q))
+          .map((message) => ({ roomType, message }))
+      )
+      .sort(newestFirst)
+      .slice(0, SEARCH_LIMIT);
+  },
+});
+
+/**
+ * Queries the token index across the user's group rooms. Firestore allows a
+ * single array-contains per query, so we query on the longest token and
+ * check the rest client-side. One-on-one rooms go to `local`. A sender
+ * filter is resolved to a uid first, since names on messages can be stale.
+ */
+export const createFirestoreSearch = (
+  db: Firestore,
+  uid: string,
+  user: UserProfile,
+  local: SearchService
+): SearchService => ({
+  search: async (input) => {
+    let q = input;
+    if (q.sender) {
+      const senderUid = await resolveUsername(db, q.sender);
+      if (!senderUid) return [];
+      q = { ...q, senderUid };
+    }
+
+    const tokens = tokenize(q.text);
+    const groupTypes = q.roomTypes.filter((t) => t !== RoomType.ONE_ON_ONE);
+    const roomIds = new Map<string, RoomType>();
+    groupTypes.forEach((t) => {
+      const id = getRoomId(t, user);
+      if (id) roomIds.set(id, t);
+    });
+
+    const localResults = q.roomTypes.includes(RoomType.ONE_ON_ONE)
+      ? await local.search({ ...q, roomTypes: [RoomType.ONE_ON_ONE] })
+      : [];
+    if (roomIds.size === 0 || (tokens.length === 0 && !q.sender)) return localResults;
+
+    const key = [...tokens].sort((a, b) => b.length - a.length)[0];
+    const constraints: QueryConstraint[] = [where("roomId", "in", Array.from(roomIds.keys()))];
+    if (key) constraints.push(where("tokens", "array-contains", key));
+    if (q.senderUid) constraints.push(where("senderUid", "==", q.senderUid));
+    if (q.from !== undefined) constraints.push(where("timestamp", ">=", q.from));
+    if (q.to !== undefined) constraints.push(where("timestamp", "<=", q.to));
+
+    const snap = await getDocs(
+      query(collection(db, MESSAGES), ...constraints, orderBy("timestamp", "desc"), limit(SEARCH_LIMIT))
+    );
+
+    const remote = snap.docs
+      .map((d) => {
+        const roomId = d.data().roomId as string;
+        return { roomType: roomIds.get(roomId)!, message: toMessage(d.id, d.data(), uid, roomId) };
+      })
+      .filter((r) => matches(r.message, tokens, q));
+
+    return [...remote, ...localResults].sort(newestFirst).slice(0, SEARCH_LIMIT);
+  },
+});
@@ -0,0 +1,202 @@
+import {
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  Timestamp,
+  collection,
+  doc,
+  documentId,
+  getDoc,
+  increment,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { RoomSettingsDoc } from "../types";
+
+// Firestore layout:
+//   sendLimits/{uid}       -> counters, private to the uid. Written in the same
+//                             batch as every message; firestore.rules only lets
+//                             a message through if this update keeps within the
+//                             limits below, so a client can't skip it.
+//   roomSettings/{roomId}  -> RoomSettingsDoc; slow mode, set by moderators
+//
+// The checks here mirror the rules so the input bar can say how long to wait
+// instead of the write bouncing. Keep the numbers in step with firestore.rules.
+
+const SEND_LIMITS = "sendLimits";
+const ROOM_SETTINGS = "roomSettings";
+
+export const SEND_LIMIT = 20; // messages...
+export const SEND_WINDOW_MS = 60000; // ...per uid per window
+export const MIN_SEND_INTERVAL_MS = 1000;
+export const DUPLICATE_WINDOW_MS = 30000;
+
+export const SLOW_MODE_OPTIONS: { label: string; seconds: number }[] = [
+  { label: "Off", seconds: 0 },
+  { label: "10s", seconds: 10 },
+  { label: "30s", seconds: 30 },
+  { label: "1m", seconds: 60 },
+  { label: "5m", seconds: 300 },
+];
+
+// sendLimits/{uid} as the client sees it, timestamps in ms
+export interface SendLimits {
+  windowStart: number;
+  count: number; // Sends since windowStart
+  lastAt: number;
+  lastText: string;
+  rooms: Record<string, number>; // Last send per room, for slow mode
+}
+
+export const EMPTY_LIMITS: SendLimits = {
+  windowStart: 0,
+  count: 0,
+  lastAt: 0,
+  lastText: "",
+  rooms: {},
+};
+
+export class SendLimitError extends Error {
+  retryAt: number;
+
+  constructor(message: string, retryAt: number) {
+    super(message);
+    this.retryAt = retryAt;
+  }
+}
+
+const millis = (value: unknown) => (value instanceof Timestamp ? value.toMillis() : 0);
+
+const toLimits = (d: DocumentData | undefined): SendLimits => {
+  if (!d) return EMPTY_LIMITS;
+  const rooms: Record<string, number> = {};
+  Object.entries(d.rooms || {}).forEach(([key, at]) => (rooms[key] = millis(at)));
+  return {
+    windowStart: millis(d.windowStart),
+    count: d.count || 0,
+    lastAt: millis(d.lastAt),
+    lastText: d.lastText || "",
+    rooms,
+  };
+};
+
+// Pending server timestamps read as local estimates, so a send counts at once
+export const watchSendLimits = (db: Firestore, uid: string, onChange: (limits: SendLimits) => void) =>
+  onSnapshot(doc(db, SEND_LIMITS, uid), (snap) =>
+    onChange(toLimits(snap.data({ serverTimestamps: "estimate" })))
+  );
+
+/** A fresh read of the counters, for telling a limit apart from other denials. */
+export const loadSendLimits = async (db: Firestore, uid: string) =>
+  toLimits((await getDoc(doc(db, SEND_LIMITS, uid))).data());
+
+/**
+ * Earliest time the next message may go to `roomKey`, or 0 if it may go now.
+ * Takes the latest of the minimum gap, the room's slow mode and the window
+ * reset when the window is used up.
+ */
+export const nextSendAt = (limits: SendLimits, roomKey: string, slowModeSec: number, now: number) => {
+  const waits = [limits.lastAt + MIN_SEND_INTERVAL_MS];
+  if (slowModeSec > 0 && limits.rooms[roomKey]) waits.push(limits.rooms[roomKey] + slowModeSec * 1000);
+  if (limits.count >= SEND_LIMIT && now < limits.windowStart + SEND_WINDOW_MS) {
+    waits.push(limits.windowStart + SEND_WINDOW_MS);
+  }
+  const at = Math.max(...waits);
+  return at > now ? at : 0;
+};
+
+// The rules compare exact text; here case and spacing don't dodge it either
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const isDuplicate = (limits: SendLimits, text: string, now: number) =>
+  !!text.trim() && now < limits.lastAt + DUPLICATE_WINDOW_MS && normalize(text) === normalize(limits.lastText);
+
+/** Throws a SendLimitError saying how long to wait, or what's wrong with the text. */
+export const checkSend = (limits: SendLimits, roomKey: string, slowModeSec: number, text: string, now: number) => {
+  const at = nextSendAt(limits, roomKey, slowModeSec, now);
+  if (at) {
+    throw new SendLimitError(`Slow down, try again in ${Math.ceil((at - now) / 1000)}s`, at);
+  }
+  if (isDuplicate(limits, text, now)) {
+    throw new SendLimitError("You just sent that. Try saying something new.", 0);
+  }
+};
+
+/** The counters after one more send, for demo mode where nothing is written. */
+export const recordSend = (limits: SendLimits, roomKey: string, text: string, now: number): SendLimits => {
+  const fresh = now >= limits.windowStart + SEND_WINDOW_MS;
+  return {
+    windowStart: fresh ? now : limits.windowStart,
+    count: fresh ? 1 : limits.count + 1,
+    lastAt: now,
+    lastText: text,
+    rooms: { ...limits.rooms, [roomKey]: now },
+  };
+};
+
+/**
+ * Writes `data` to `ref` together with the matching counter update, which
+ * names `ref` so it can't count for another message. The rules reject either
+ * write without the other. Pass "" as `text` for attachments so they never
+ * count as duplicates.
+ *
+ * Whether the minute window is over is judged by the local clock, which can
+ * disagree with the server's. If the rules refuse the write, it is tried once
+ * more the other way (a fresh window instead of an increment, or back); a
+ * write that breaks the limits is refused both times.
+ */
+export const sendCounted = async (
+  db: Firestore,
+  uid: string,
+  limits: SendLimits,
+  roomKey: string,
+  text: string,
+  ref: DocumentReference,
+  data: DocumentData
+) => {
+  const commit = (fresh: boolean) => {
+    const batch = writeBatch(db);
+    batch.set(ref, data);
+    batch.set(
+      doc(db, SEND_LIMITS, uid),
+      {
+        ...(fresh ? { windowStart: serverTimestamp(), count: 1 } : { count: increment(1) }),
+        lastAt: serverTimestamp(),
+        lastText: text,
+        lastRoom: roomKey,
+        lastMessageId: ref.id,
+        rooms: { [roomKey]: serverTimestamp() },
+      },
+      { merge: true }
+    );
+    return batch.commit();
+  };
+
+  const fresh = Date.now() >= limits.windowStart + SEND_WINDOW_MS;
+  try {
+    await commit(fresh);
+  } catch (err) {
+    if ((err as { code?: string }).code !== "permission-denied") throw err;
+    await commit(!fresh);
+  }
+};
+
+/* ---------------- SLOW MODE ---------------- */
+
+export const watchRoomSettings = (
+  db: Firestore,
+  roomIds: string[],
+  onChange: (settings: Record<string, RoomSettingsDoc>) => void
+) =>
+  onSnapshot(query(collection(db, ROOM_SETTINGS), where(documentId(), "in", roomIds)), (snap) => {
+    const settings: Record<string, RoomSettingsDoc> = {};
+    snap.docs.forEach((d) => (settings[d.id] = d.data() as RoomSettingsDoc));
+    onChange(settings);
+  });
+
+export const setSlowMode = (db: Firestore, roomId: string, seconds: number, moderatorUid: string) =>
+  setDoc(doc(db, ROOM_SETTINGS, roomId), { slowModeSec: seconds, setBy: moderatorUid, at: Date.now() }, { merge: true });
@@ -0,0 +1,40 @@
+import { FirebaseStorage, deleteObject, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+
+// Attachment blobs go through this interface so the chat code doesn't care
+// where they live. Firestore only stores the returned URL and path.
+
+export interface AttachmentStorage {
+  name: string;
+  // Resolves to a URL the <img>/<audio> can load. `metadata` is visible to storage.rules.
+  upload: (path: string, blob: Blob, metadata?: Record<string, string>) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+/** Firebase Storage; the emulator on :9199 when VITE_USE_FIREBASE_EMULATOR is set. */
+export const createFirebaseStorage = (storage: FirebaseStorage): AttachmentStorage => ({
+  name: "firebase",
+  upload: async (path, blob, metadata) => {
+    const objectRef = ref(storage, path);
+    await uploadBytes(objectRef, blob, { contentType: blob.type, customMetadata: metadata });
+    return getDownloadURL(objectRef);
+  },
+  remove: (path) => deleteObject(ref(storage, path)),
+});
+
+/** Keeps blobs in memory for demo mode. URLs die with the tab. */
+export const createLocalStorage = (): AttachmentStorage => {
+  const urls = new Map<string, string>();
+  return {
+    name: "local",
+    upload: async (path, blob) => {
+      const url = URL.createObjectURL(blob);
+      urls.set(path, url);
+      return url;
+    },
+    remove: async (path) => {
+      const url = urls.get(path);
+      if (url) URL.revokeObjectURL(url);
+      urls.delete(path);
+    },
+  };
+};
@@ -0,0 +1,31 @@
+// Deterministic offline stand-ins for the model, for tests and local
+// development. Nothing browser-specific, so the client's stubs
+// (stubProvider in translation.ts, stubClassifier in autoModeration.ts) and
+// the proxy's mock backend (MODEL_BACKEND=mock in server.ts) share them.
+
+export interface BatchTranslation {
+  detectedLanguage: string; // ISO 639-1
+  translation: string;
+}
+
+export const stubTranslate = (text: string, targetLanguage: string) => `[${targetLanguage}] ${text}`;
+
+// "Detects" plain ASCII as English and everything else as undetermined
+export const stubTranslateBatch = (texts: string[], targetLanguage: string): BatchTranslation[] =>
+  texts.map((text) => ({
+    detectedLanguage: /^[\x00-\x7F]*$/.test(text) ? "en" : "und",
+    translation: stubTranslate(text, targetLanguage),
+  }));
+
+// What a model classifier decides; it never masks
+export interface Classification {
+  action: "allow" | "hold" | "reject";
+  reason?: string;
+}
+
+// "[hold]" and "[reject]" anywhere in a message trigger those actions
+export const stubClassify = (text: string): Classification => {
+  if (text.includes("[reject]")) return { action: "reject", reason: "Rejected by the stub classifier" };
+  if (text.includes("[hold]")) return { action: "hold", reason: "Held by the stub classifier" };
+  return { action: "allow" };
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TranslationProvider, queueAutoTranslation, setTranslationProvider, stubProvider, translate } from "./translation";
+
+// The Gemini provider is never used here; everything runs on stubs offline
+vi.mock("./geminiService", () => ({
+  translateMessage: vi.fn(),
+  translateMessages: vi.fn(),
+}));
+
+const countingProvider = (base: TranslationProvider = stubProvider) => {
+  const provider = {
+    name: "counting",
+    translate: vi.fn(base.translate),
+    translateBatch: vi.fn(base.translateBatch),
+  };
+  setTranslationProvider(provider);
+  return provider;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+  setTranslationProvider(stubProvider);
+});
+
+describe("stubProvider", () => {
+  it("is deterministic", async () => {
+    expect(await stubProvider.translate("hello", "French")).toBe("[French] hello");
+    expect(await stubProvider.translateBatch(["hi", "héllo"], "German")).toEqual([
+      { detectedLanguage: "en", translation: "[German] hi" },
+      { detectedLanguage: "und", translation: "[German] héllo" },
+    ]);
+  });
+});
+
+describe("translate", () => {
+  it("caches per message and language, sharing in-flight requests", async () => {
+    const provider = countingProvider();
+
+    const [a, b] = await Promise.all([translate("m1", "hello", "fr"), translate("m1", "hello", "fr")]);
+    expect(a).toBe("[French] hello");
+    expect(b).toBe(a);
+    expect(provider.translate).toHaveBeenCalledTimes(1);
+
+    await translate("m1", "hello", "de");
+    await translate("m2", "hello", "fr");
+    expect(provider.translate).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects on failure instead of returning the original, and retries next time", async () => {
+    const provider = countingProvider();
+    provider.translate.mockRejectedValueOnce(new Error("offline"));
+
+    await expect(translate("m1", "hello", "fr")).rejects.toThrow("offline");
+    await expect(translate("m1", "hello", "fr")).resolves.toBe("[French] hello");
+    expect(provider.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts over when the provider changes", async () => {
+    countingProvider();
+    await translate("m1", "hello", "fr");
+    const next = countingProvider();
+    await translate("m1", "hello", "fr");
+    expect(next.translate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("queueAutoTranslation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it("batches a burst into one provider call per language", async () => {
+    const provider = countingProvider();
+
+    const pending = Array.from({ length: 5 }, (_, i) => queueAutoTranslation(`m${i}`, `text ${i}`, "fr"));
+    expect(provider.translateBatch).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+    expect(await Promise.all(pending)).toEqual(Array.from({ length: 5 }, (_, i) => `[French] text ${i}`));
+    expect(provider.translateBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves null for messages already in the target language", async () => {
+    countingProvider();
+    const pending = queueAutoTranslation("m1", "hello", "en");
+    await vi.runAllTimersAsync();
+    expect(await pending).toBeNull();
+  });
+
+  it("fills the manual translation cache", async () => {
+    const provider = countingProvider();
+    const pending = queueAutoTranslation("m1", "hello", "fr");
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(await translate("m1", "hello", "fr")).toBe("[French] hello");
+    expect(provider.translate).not.toHaveBeenCalled();
+  });
+
+  it("rejects every message in a failed batch", async () => {
+    const provider = countingProvider();
+    provider.translateBatch.mockRejectedValueOnce(new Error("offline"));
+
+    const pending = [queueAutoTranslation("m1", "a", "fr"), queueAutoTranslation("m2", "b", "fr")];
+    pending.forEach((p) => p.catch(() => {}));
+    await vi.runAllTimersAsync();
+    for (const p of pending) await expect(p).rejects.toThrow("offline");
+  });
+});
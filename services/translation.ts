@@ -0,0 +1,119 @@
+import { translateMessage, translateMessages } from "./geminiService";
+import { LANGUAGES } from "../data/languages";
+import { BatchTranslation, stubTranslate, stubTranslateBatch } from "./stubModels";
+
+export type { BatchTranslation } from "./stubModels";
+
+export interface TranslationProvider {
+  name: string;
+  translate: (text: string, targetLanguage: string) => Promise<string>;
+  translateBatch: (texts: string[], targetLanguage: string) => Promise<BatchTranslation[]>;
+}
+
+export const geminiProvider: TranslationProvider = {
+  name: "gemini",
+  translate: translateMessage,
+  translateBatch: translateMessages,
+};
+
+// Deterministic offline backend for tests and local development; the proxy's
+// mock backend runs the same code (services/stubModels.ts)
+export const stubProvider: TranslationProvider = {
+  name: "stub",
+  translate: async (text, targetLanguage) => stubTranslate(text, targetLanguage),
+  translateBatch: async (texts, targetLanguage) => stubTranslateBatch(texts, targetLanguage),
+};
+
+// Pick with VITE_TRANSLATION_PROVIDER=stub|gemini (defaults to gemini)
+let provider: TranslationProvider =
+  import.meta.env.VITE_TRANSLATION_PROVIDER === "stub" ? stubProvider : geminiProvider;
+
+export const setTranslationProvider = (next: TranslationProvider) => {
+  provider = next;
+  cache.clear();
+};
+
+export const defaultLanguageCode = () => {
+  const code = (navigator.language || "en").split("-")[0];
+  return LANGUAGES[code] ? code : "en";
+};
+
+export const languageName = (code: string) => LANGUAGES[code] || code;
+
+// Keyed by message id + language; holds in-flight requests too so repeated
+// taps share one provider call. Failures are evicted so they can be retried.
+const cache = new Map<string, Promise<string>>();
+
+export const translate = (messageId: string, text: string, languageCode: string) => {
+  const key = `${messageId}:${languageCode}`;
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = provider.translate(text, languageName(languageCode));
+    pending.catch(() => cache.delete(key));
+    cache.set(key, pending);
+  }
+  return pending;
+};
+
+/* ---------------- AUTO-TRANSLATE BATCHING ---------------- */
+
+const AUTO_BATCH_SIZE = 25;
+const AUTO_BATCH_DELAY_MS = 300;
+
+interface QueuedTranslation {
+  messageId: string;
+  text: string;
+  resolve: (translation: string | null) => void;
+  reject: (err: unknown) => void;
+}
+
+const queues = new Map<string, QueuedTranslation[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const flush = () => {
+  flushTimer = null;
+  const pending = Array.from(queues.entries());
+  queues.clear();
+
+  pending.forEach(([languageCode, items]) => {
+    for (let i = 0; i < items.length; i += AUTO_BATCH_SIZE) {
+      const chunk = items.slice(i, i + AUTO_BATCH_SIZE);
+      provider
+        .translateBatch(chunk.map((item) => item.text), languageName(languageCode))
+        .then((results) =>
+          chunk.forEach((item, idx) => {
+            const { detectedLanguage, translation } = results[idx];
+            if (detectedLanguage === languageCode) {
+              item.resolve(null);
+              return;
+            }
+            cache.set(`${item.messageId}:${languageCode}`, Promise.resolve(translation));
+            item.resolve(translation);
+          })
+        )
+        .catch((err) => chunk.forEach((item) => item.reject(err)));
+    }
+  });
+};
+
+/**
+ * Queues an incoming message for auto-translation. Messages arriving within a
+ * short window are sent to the provider together, so a burst of 50 becomes a
+ * couple of calls. Resolves to null when the message is already in the target
+ * language.
+ */
+export const queueAutoTranslation = (
+  messageId: string,
+  text: string,
+  languageCode: string
+): Promise<string | null> => {
+  const cached = cache.get(`${messageId}:${languageCode}`);
+  if (cached) return cached;
+
+  return new Promise((resolve, reject) => {
+    const queue = queues.get(languageCode) || [];
+    queue.push({ messageId, text, resolve, reject });
+    queues.set(languageCode, queue);
+    if (!flushTimer) flushTimer = setTimeout(flush, AUTO_BATCH_DELAY_MS);
+  });
+};
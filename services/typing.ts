@@ -0,0 +1,67 @@
+import { Firestore, collection, deleteDoc, doc, onSnapshot, setDoc } from "firebase/firestore";
+
+// Firestore layout: typing/{roomKey}/users/{uid} -> { username, at }
+// `roomKey` is the group room id, or `session_<id>` for one-on-one chats.
+// Entries are ephemeral: readers ignore anything older than TYPING_TTL_MS.
+
+const TYPING = "typing";
+
+// At most one write per user per room in this window
+export const TYPING_THROTTLE_MS = 2000;
+export const TYPING_TTL_MS = 5000;
+
+export const sessionTypingKey = (sessionId: string) => `session_${sessionId}`;
+
+/** Throttled "I'm typing" signal for one room. Call `stop` on send or leave. */
+export const createTypingReporter = (db: Firestore, roomKey: string, uid: string, username: string) => {
+  const ref = doc(db, TYPING, roomKey, "users", uid);
+  let lastWrite = 0;
+
+  return {
+    onInput: () => {
+      const now = Date.now();
+      if (now - lastWrite < TYPING_THROTTLE_MS) return;
+      lastWrite = now;
+      setDoc(ref, { username, at: now }).catch(() => {});
+    },
+    stop: () => {
+      if (!lastWrite) return;
+      lastWrite = 0;
+      deleteDoc(ref).catch(() => {});
+    },
+  };
+};
+
+/** Streams the usernames currently typing in a room, excluding `selfUid`. */
+export const watchTyping = (
+  db: Firestore,
+  roomKey: string,
+  selfUid: string,
+  onChange: (usernames: string[]) => void
+) => {
+  let entries: { uid: string; username: string; at: number }[] = [];
+  let last = "";
+
+  // Entries expire without a write, so re-evaluate on a timer as well
+  const emit = () => {
+    const now = Date.now();
+    const usernames = entries
+      .filter((e) => e.uid !== selfUid && now - e.at < TYPING_TTL_MS)
+      .map((e) => e.username);
+    const key = usernames.join("\n");
+    if (key === last) return;
+    last = key;
+    onChange(usernames);
+  };
+
+  const unsub = onSnapshot(collection(db, TYPING, roomKey, "users"), (snap) => {
+    entries = snap.docs.map((d) => ({ uid: d.id, username: d.data().username, at: d.data().at }));
+    emit();
+  });
+  const timer = setInterval(emit, 1000);
+
+  return () => {
+    unsub();
+    clearInterval(timer);
+  };
+};
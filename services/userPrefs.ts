@@ -0,0 +1,80 @@
+import {
+  Firestore,
+  arrayRemove,
+  arrayUnion,
+  deleteField,
+  doc,
+  onSnapshot,
+  setDoc,
+} from "firebase/firestore";
+import { BlockedUser, RoomType, UserPrefsDoc } from "../types";
+
+// Firestore layout: userPrefs/{uid} -> UserPrefsDoc, private to its owner.
+// Demo mode has no backend, so the same shape is kept in localStorage.
+
+const USER_PREFS = "userPrefs";
+const LOCAL_KEY = "plyxor_prefs";
+
+export const EMPTY_PREFS: UserPrefsDoc = {
+  hiddenMessages: [],
+  autoTranslateRooms: [],
+  mutedRooms: {},
+  blocked: {},
+};
+
+const withDefaults = (data: Partial<UserPrefsDoc> | undefined): UserPrefsDoc => ({
+  ...EMPTY_PREFS,
+  ...data,
+});
+
+export const watchUserPrefs = (db: Firestore, uid: string, onChange: (prefs: UserPrefsDoc) => void) =>
+  onSnapshot(doc(db, USER_PREFS, uid), (snap) =>
+    onChange(withDefaults(snap.data() as Partial<UserPrefsDoc> | undefined))
+  );
+
+export const hideMessage = (db: Firestore, uid: string, messageId: string) =>
+  setDoc(doc(db, USER_PREFS, uid), { hiddenMessages: arrayUnion(messageId) }, { merge: true });
+
+export const setRoomAutoTranslate = (db: Firestore, uid: string, room: RoomType, enabled: boolean) =>
+  setDoc(
+    doc(db, USER_PREFS, uid),
+    { autoTranslateRooms: enabled ? arrayUnion(room) : arrayRemove(room) },
+    { merge: true }
+  );
+
+export const isRoomMuted = (prefs: UserPrefsDoc, room: RoomType, now: number) => {
+  if (!(room in prefs.mutedRooms)) return false;
+  const until = prefs.mutedRooms[room];
+  return until === null || (until !== undefined && until > now);
+};
+
+export const muteRoom = (db: Firestore, uid: string, room: RoomType, until: number | null) =>
+  setDoc(doc(db, USER_PREFS, uid), { mutedRooms: { [room]: until } }, { merge: true });
+
+export const unmuteRoom = (db: Firestore, uid: string, room: RoomType) =>
+  setDoc(doc(db, USER_PREFS, uid), { mutedRooms: { [room]: deleteField() } }, { merge: true });
+
+// Blocks are by uid; usernames can be reused by anyone
+export const isBlocked = (prefs: UserPrefsDoc, uid?: string) => !!uid && uid in prefs.blocked;
+
+export const blockUser = (db: Firestore, uid: string, blockedUid: string, entry: BlockedUser) =>
+  setDoc(doc(db, USER_PREFS, uid), { blocked: { [blockedUid]: entry } }, { merge: true });
+
+export const unblockUser = (db: Firestore, uid: string, blockedUid: string) =>
+  setDoc(doc(db, USER_PREFS, uid), { blocked: { [blockedUid]: deleteField() } }, { merge: true });
+
+export const loadLocalPrefs = (): UserPrefsDoc => {
+  try {
+    return withDefaults(JSON.parse(localStorage.getItem(LOCAL_KEY) || "{}"));
+  } catch {
+    return EMPTY_PREFS;
+  }
+};
+
+export const saveLocalPrefs = (prefs: UserPrefsDoc) => {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(prefs));
+};
+
+export const clearLocalPrefs = () => {
+  localStorage.removeItem(LOCAL_KEY);
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { validateUsername } from "./users";
+
+describe("validateUsername", () => {
+  it.each(["skyscraper", "Scunthorpe", "Dickens", "shitake_fan", "cocktail", "bass.player"])("accepts %s", (name) =>
+    expect(validateUsername(name)).toBeNull()
+  );
+
+  it.each(["fuck", "big_shit", "BigShit", "shit99", "kys", "kill.your.self", "KillYourself", "go_die"])(
+    "refuses %s",
+    (name) => expect(validateUsername(name)).toBe("Please pick a different username")
+  );
+
+  it("refuses reserved names in any case and malformed names", () => {
+    expect(validateUsername("Admin")).toBe("That username is reserved");
+    expect(validateUsername("ab")).not.toBeNull();
+    expect(validateUsername("no spaces")).not.toBeNull();
+  });
+});
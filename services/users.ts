@@ -0,0 +1,181 @@
+import { Firestore, doc, getDoc, runTransaction, writeBatch } from "firebase/firestore";
+import { UserDoc, UserProfile, UsernameDoc } from "../types";
+import { BLOCKED_PHRASES, MASKED_WORDS } from "../data/wordlist";
+
+// Firestore layout:
+//   users/{uid}          -> UserDoc. firestore.rules read it to check the sender
+//                           name on messages and which rooms the uid may read
+//                           and post in, so it is written before any room is
+//                           touched.
+//   usernames/{lowered}  -> UsernameDoc, the reservation that makes a username
+//                           unique regardless of case. Written in the same
+//                           transaction as the user doc.
+// Demo mode has no backend, so the profile is kept in localStorage instead.
+
+const USERS = "users";
+const USERNAMES = "usernames";
+const LOCAL_KEY = "plyxor_profile";
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.]{3,20}$/;
+
+// Names nobody gets to claim, so nobody can pass for staff
+const RESERVED_USERNAMES = ["admin", "administrator", "moderator", "mod", "plyxor", "support", "system", "staff"];
+
+export type UsernameCheck =
+  | { status: "available" }
+  | { status: "taken" }
+  | { status: "invalid"; reason: string };
+
+export const usernameKey = (username: string) => username.toLowerCase();
+
+const BANNED_WORDS = new Set([...MASKED_WORDS, ...BLOCKED_PHRASES].map((w) => w.replace(/\s+/g, "")));
+
+// Words in a name, split at dots, underscores, digits and camelCase: "Big_Shit99"
+// and "bigShit" are ["big", "shit"]
+const nameWords = (username: string) =>
+  username
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+// Whole words only, as in messages, so "skyscraper" and "Scunthorpe" pass.
+// Runs of adjacent words are tried joined too, for phrases ("kill.your.self").
+const hasBannedWord = (username: string) => {
+  const words = nameWords(username);
+  return words.some((_, start) =>
+    words.slice(start).some((__, i) => BANNED_WORDS.has(words.slice(start, start + i + 1).join("")))
+  );
+};
+
+/** Format, reserved names and profanity; null when the name is acceptable. */
+export const validateUsername = (username: string): string | null => {
+  if (!USERNAME_PATTERN.test(username)) {
+    return "3-20 letters, numbers, dots or underscores";
+  }
+  const key = usernameKey(username);
+  if (RESERVED_USERNAMES.includes(key)) return "That username is reserved";
+  if (hasBannedWord(username)) return "Please pick a different username";
+  return null;
+};
+
+/** Live check for the login form. A name already held by `uid` counts as available. */
+export const checkUsername = async (db: Firestore, uid: string, username: string): Promise<UsernameCheck> => {
+  const invalid = validateUsername(username);
+  if (invalid) return { status: "invalid", reason: invalid };
+  const snap = await getDoc(doc(db, USERNAMES, usernameKey(username)));
+  return snap.exists() && (snap.data() as UsernameDoc).uid !== uid ? { status: "taken" } : { status: "available" };
+};
+
+export class UsernameTakenError extends Error {
+  constructor() {
+    super("That username was just taken");
+  }
+}
+
+/**
+ * Reserves `profile.username` for `uid` and writes the user doc, releasing
+ * the uid's previous username if it had one. Throws UsernameTakenError if
+ * somebody else got there first.
+ */
+export const claimProfile = (db: Firestore, uid: string, profile: UserProfile) =>
+  runTransaction(db, async (tx) => {
+    const invalid = validateUsername(profile.username);
+    if (invalid) throw new Error(invalid);
+
+    const key = usernameKey(profile.username);
+    const userRef = doc(db, USERS, uid);
+    const claimRef = doc(db, USERNAMES, key);
+    const [current, claim] = [await tx.get(userRef), await tx.get(claimRef)];
+
+    if (claim.exists() && (claim.data() as UsernameDoc).uid !== uid) throw new UsernameTakenError();
+
+    const previous = current.exists() ? usernameKey((current.data() as UserDoc).username) : null;
+    if (previous && previous !== key) tx.delete(doc(db, USERNAMES, previous));
+
+    const reservation: UsernameDoc = { uid, username: profile.username, claimedAt: Date.now() };
+    if (!claim.exists() || (claim.data() as UsernameDoc).username !== profile.username) tx.set(claimRef, reservation);
+
+    const user: UserDoc = {
+      username: profile.username,
+      country: profile.country,
+      state: profile.state,
+      ...(profile.preferredLanguage ? { preferredLanguage: profile.preferredLanguage } : {}),
+      updatedAt: Date.now(),
+    };
+    tx.set(userRef, user);
+  });
+
+/** The uid currently holding `username` (any case), or null if nobody does. */
+export const resolveUsername = async (db: Firestore, username: string): Promise<string | null> => {
+  if (!USERNAME_PATTERN.test(username)) return null;
+  const snap = await getDoc(doc(db, USERNAMES, usernameKey(username)));
+  return snap.exists() ? (snap.data() as UsernameDoc).uid : null;
+};
+
+/** The profile saved for `uid` on an earlier visit, if any. */
+export const loadProfile = async (db: Firestore, uid: string): Promise<UserProfile | null> => {
+  const snap = await getDoc(doc(db, USERS, uid));
+  if (!snap.exists()) return null;
+  const { username, country, state, preferredLanguage } = snap.data() as UserDoc;
+  return { userId: uid, username, country, state, ...(preferredLanguage ? { preferredLanguage } : {}) };
+};
+
+/**
+ * Deletes the profile and frees its username. Anonymous sign-in never gets
+ * the same uid back after signing out, so a kept reservation would be lost
+ * for good.
+ */
+export const releaseProfile = async (db: Firestore, uid: string, username: string) => {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, USERNAMES, usernameKey(username)));
+  batch.delete(doc(db, USERS, uid));
+  await batch.commit();
+};
+
+export const loadLocalProfile = (): UserProfile | null => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocalProfile = (profile: UserProfile) => {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(profile));
+};
+
+export const clearLocalProfile = () => {
+  localStorage.removeItem(LOCAL_KEY);
+};
+
+/* ---------------- DIRECTORY ---------------- */
+
+/**
+ * Resolves uids to their current usernames from users/{uid}, so who sent a
+ * message comes from the uid rather than the name stored on the message.
+ * Each uid is fetched once; `onChange` gets the whole map after each batch.
+ */
+export const createUserDirectory = (db: Firestore, onChange: (names: Record<string, string>) => void) => {
+  const names: Record<string, string> = {};
+  const requested = new Set<string>();
+
+  return {
+    resolve: (uids: string[]) => {
+      const missing = Array.from(new Set(uids)).filter((uid) => !requested.has(uid));
+      if (missing.length === 0) return;
+      missing.forEach((uid) => requested.add(uid));
+
+      Promise.all(
+        missing.map((uid) =>
+          getDoc(doc(db, USERS, uid))
+            .then((snap) => {
+              if (snap.exists()) names[uid] = (snap.data() as UserDoc).username;
+            })
+            // Let a later call try again
+            .catch(() => requested.delete(uid))
+        )
+      ).then(() => onChange({ ...names }));
+    },
+  };
+};
@@ -0,0 +1,114 @@
+import { readFileSync } from "node:fs";
+import { RulesTestContext, RulesTestEnvironment, initializeTestEnvironment } from "@firebase/rules-unit-testing";
+import { Firestore, Timestamp, doc, setDoc } from "firebase/firestore";
+import { FirebaseStorage } from "firebase/storage";
+import { EMPTY_LIMITS, SendLimits, sendCounted } from "../services/sendLimits";
+import { UserDoc, UsernameDoc } from "../types";
+
+// Shared setup for the rules suites. `firebase emulators:exec` exports the
+// emulator hosts, which initializeTestEnvironment picks up.
+
+export const PROJECT_ID = "demo-plyxor";
+
+export const createTestEnv = () =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+
+// The test contexts hand out compat instances; the modular API used by the
+// services accepts them
+export const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+export const storageOf = (context: RulesTestContext) => context.storage() as unknown as FirebaseStorage;
+
+/** Runs `fn` with rules off, for seeding. */
+export const seed = (env: RulesTestEnvironment, fn: (db: Firestore) => Promise<unknown>) =>
+  env.withSecurityRulesDisabled((context) => fn(firestoreOf(context)).then(() => undefined));
+
+export interface TestUser {
+  uid: string;
+  username: string;
+  country: string;
+  state: string;
+}
+
+export const ALICE: TestUser = { uid: "alice", username: "alice", country: "Canada", state: "Ontario" };
+export const BOB: TestUser = { uid: "bob", username: "bob", country: "Canada", state: "Quebec" };
+export const CAROL: TestUser = { uid: "carol", username: "carol", country: "France", state: "Brittany" };
+
+/** Writes users/{uid} and its username reservation, as claimProfile would. */
+export const seedProfile = (env: RulesTestEnvironment, user: TestUser) =>
+  seed(env, async (db) => {
+    const profile: UserDoc = { username: user.username, country: user.country, state: user.state, updatedAt: Date.now() };
+    const claim: UsernameDoc = { uid: user.uid, username: user.username, claimedAt: Date.now() };
+    await setDoc(doc(db, "users", user.uid), profile);
+    await setDoc(doc(db, "usernames", user.username.toLowerCase()), claim);
+  });
+
+export const seedModerator = (env: RulesTestEnvironment, uid: string) =>
+  seed(env, (db) => setDoc(doc(db, "moderators", uid), {}));
+
+/** A counter doc as the server would hold it, `agoMs` after each timestamp. */
+export const seedLimits = (
+  env: RulesTestEnvironment,
+  uid: string,
+  limits: { windowStartAgo: number; count: number; lastAgo: number; lastText: string; lastRoom: string }
+) =>
+  seed(env, (db) => {
+    const now = Date.now();
+    return setDoc(doc(db, "sendLimits", uid), {
+      windowStart: Timestamp.fromMillis(now - limits.windowStartAgo),
+      count: limits.count,
+      lastAt: Timestamp.fromMillis(now - limits.lastAgo),
+      lastText: limits.lastText,
+      lastRoom: limits.lastRoom,
+      rooms: { [limits.lastRoom]: Timestamp.fromMillis(now - limits.lastAgo) },
+    });
+  });
+
+/** The client's view of a seeded counter, so sendCounted picks the same window. */
+export const limitsView = (windowStartAgo: number, count: number): SendLimits => ({
+  ...EMPTY_LIMITS,
+  windowStart: Date.now() - windowStartAgo,
+  count,
+});
+
+export const groupMessage = (user: TestUser, roomId: string, text: string) => ({
+  text,
+  sender: user.username,
+  senderUid: user.uid,
+  roomId,
+  readBy: [],
+  tokens: [],
+  mentions: [],
+  timestamp: Date.now(),
+});
+
+/** A screening as the proxy records it (POST /api/screen); returns its id. */
+export const seedScreening = async (
+  env: RulesTestEnvironment,
+  user: TestUser,
+  roomId: string,
+  text: string,
+  action: "allow" | "mask" | "hold" = "allow"
+) => {
+  const id = `screening-${Math.random().toString(36).slice(2)}`;
+  await seed(env, (db) => setDoc(doc(db, "screenings", id), { uid: user.uid, roomId, text, action, at: Timestamp.now() }));
+  return id;
+};
+
+/** Screens and sends a group message the way the app does, counter update included. */
+export const sendAs = async (
+  env: RulesTestEnvironment,
+  db: Firestore,
+  user: TestUser,
+  roomId: string,
+  text: string,
+  overrides: Record<string, unknown> = {},
+  limits: SendLimits = EMPTY_LIMITS
+) => {
+  const message = { ...groupMessage(user, roomId, text), ...overrides };
+  const id = await seedScreening(env, user, String(message.roomId), String(message.text));
+  return sendCounted(db, user.uid, limits, roomId, text, doc(db, "messages", id), message);
+};
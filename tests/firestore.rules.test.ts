@@ -0,0 +1,572 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { RulesTestEnvironment, assertFails, assertSucceeds } from "@firebase/rules-unit-testing";
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { claimProfile, releaseProfile } from "../services/users";
+import { endSession, sendSessionMessage } from "../services/matchmaking";
+import { REACTION_CAP, READ_RECEIPT_CAP, markRead, setReaction, unsendMessage } from "../services/messages";
+import { MAX_MENTIONS } from "../services/mentions";
+import { approveHeldMessage, loadReportContext, submitReport } from "../services/moderation";
+import { EMPTY_LIMITS, sendCounted } from "../services/sendLimits";
+import { HeldMessageDoc, ReportDoc, RoomType } from "../types";
+import {
+  ALICE,
+  BOB,
+  CAROL,
+  PROJECT_ID,
+  TestUser,
+  createTestEnv,
+  firestoreOf,
+  groupMessage,
+  limitsView,
+  seed,
+  seedLimits,
+  seedModerator,
+  seedProfile,
+  seedScreening,
+  sendAs,
+} from "./emulator";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnv();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await Promise.all([ALICE, BOB, CAROL].map((u) => seedProfile(env, u)));
+});
+
+const dbFor = (user: TestUser) => firestoreOf(env.authenticatedContext(user.uid));
+
+const seedMessage = (id: string, author: TestUser, roomId: string, extra: Record<string, unknown> = {}) =>
+  seed(env, (db) => setDoc(doc(db, "messages", id), { ...groupMessage(author, roomId, "hello"), ...extra }));
+
+const voiceNote = (uid: string, file = "note.webm") => ({
+  kind: "audio",
+  url: `https://firebasestorage.googleapis.com/v0/b/${PROJECT_ID}.appspot.com/o/attachments%2F${uid}%2F${file}?alt=media`,
+  path: `attachments/${uid}/${file}`,
+  durationMs: 1000,
+  waveform: [0.5],
+});
+
+// Attachments are counted without text, as in handleSendMessage
+const sendAttachment = (user: TestUser, text: string, attachment: Record<string, unknown>) =>
+  sendCounted(dbFor(user), user.uid, EMPTY_LIMITS, "WORLD_CHAT", "", doc(collection(dbFor(user), "messages")), {
+    ...groupMessage(user, "WORLD_CHAT", text),
+    tokens: [],
+    attachment,
+  });
+
+const seedSession = (id: string, users: TestUser[]) =>
+  seed(env, (db) =>
+    setDoc(doc(db, "sessions", id), {
+      users: users.map((u) => u.uid),
+      createdAt: Date.now(),
+      active: true,
+      userProfiles: {},
+    })
+  );
+
+describe("profiles", () => {
+  it("lets a user claim a username and write their own profile", async () => {
+    const db = dbFor({ ...ALICE, uid: "newcomer" });
+    await assertSucceeds(claimProfile(db, "newcomer", { username: "Newcomer", country: "Canada", state: "Ontario" }));
+  });
+
+  it("refuses a username reserved by someone else", async () => {
+    await assertFails(claimProfile(dbFor(BOB), BOB.uid, { username: "ALICE", country: "Canada", state: "Quebec" }));
+  });
+
+  it("refuses writing another user's profile", async () => {
+    await assertFails(
+      setDoc(doc(dbFor(BOB), "users", ALICE.uid), { username: "bob", country: "France", state: "Brittany", updatedAt: 0 })
+    );
+  });
+
+  it("refuses a profile whose username isn't reserved for the writer", async () => {
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), "users", ALICE.uid), { username: "zed", country: "Canada", state: "Ontario", updatedAt: 0 })
+    );
+  });
+
+  it("refuses extra fields on the profile", async () => {
+    await assertFails(
+      setDoc(doc(dbFor(ALICE), "users", ALICE.uid), {
+        username: "alice",
+        country: "Canada",
+        state: "Ontario",
+        updatedAt: 0,
+        moderator: true,
+      })
+    );
+  });
+
+  it("releases the profile and username together, only for the owner", async () => {
+    await assertFails(releaseProfile(dbFor(BOB), ALICE.uid, ALICE.username));
+    await assertSucceeds(releaseProfile(dbFor(ALICE), ALICE.uid, ALICE.username));
+  });
+});
+
+describe("messages: sender binding", () => {
+  it("accepts a message sent as yourself", async () => {
+    await assertSucceeds(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi"));
+  });
+
+  it("refuses a forged senderUid", async () => {
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi", { senderUid: BOB.uid }));
+  });
+
+  it("refuses a sender name other than the profile's", async () => {
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi", { sender: "bob" }));
+  });
+
+  it("refuses unauthenticated writes", async () => {
+    const db = firestoreOf(env.unauthenticatedContext());
+    await assertFails(addDoc(collection(db, "messages"), groupMessage(ALICE, "WORLD_CHAT", "hi")));
+  });
+
+  it("refuses suspended users", async () => {
+    await seed(env, (db) => setDoc(doc(db, "suspensions", ALICE.uid), { until: Date.now() + 60000 }));
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi"));
+  });
+});
+
+describe("messages: field shapes", () => {
+  it("accepts mentions, tokens and a reply as the composer writes them", async () => {
+    await assertSucceeds(
+      sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi @bob", {
+        mentions: [BOB.uid],
+        tokens: ["hi", "bob"],
+        replyTo: { id: "m1", sender: BOB.username, text: "hello" },
+      })
+    );
+  });
+
+  it("refuses more than MAX_MENTIONS mentions or mentions that aren't uids", async () => {
+    const db = dbFor(ALICE);
+    const tooMany = Array.from({ length: MAX_MENTIONS + 1 }, (_, i) => `user${i}`);
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { mentions: tooMany }));
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { mentions: [{ uid: BOB.uid }] }));
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { mentions: "bob" }));
+  });
+
+  it("refuses an oversized token list", async () => {
+    const tokens = Array.from({ length: 51 }, (_, i) => `t${i}`);
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "hi", { tokens }));
+  });
+
+  it("refuses attachments that weren't uploaded by the sender or don't carry the fallback text", async () => {
+    await assertFails(sendAttachment(ALICE, "[Voice message]", { ...voiceNote(ALICE.uid), url: "https://example.com/note.webm" }));
+    await assertFails(sendAttachment(ALICE, "[Voice message]", voiceNote(BOB.uid)));
+    await assertFails(sendAttachment(ALICE, "[Image]", voiceNote(ALICE.uid)));
+    await assertFails(sendAttachment(ALICE, "[Voice message]", { ...voiceNote(ALICE.uid), durationMs: 600000 }));
+    await assertFails(sendAttachment(ALICE, "[Voice message]", { ...voiceNote(ALICE.uid), extra: 1 }));
+    await assertFails(sendAttachment(ALICE, "[Voice message]", { kind: "video" }));
+  });
+
+  it("refuses a malformed reply", async () => {
+    const db = dbFor(ALICE);
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { replyTo: "m1" }));
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { replyTo: { id: "m1", sender: "bob", text: "x", extra: 1 } }));
+    await assertFails(sendAs(env, db, ALICE, "WORLD_CHAT", "hi", { replyTo: { id: "m1", sender: "bob", text: "x".repeat(2001) } }));
+  });
+});
+
+describe("messages: screening", () => {
+  const sendAt = (id: string, text: string, extra: Record<string, unknown> = {}) =>
+    sendCounted(dbFor(ALICE), ALICE.uid, EMPTY_LIMITS, "WORLD_CHAT", text, doc(dbFor(ALICE), "messages", id), {
+      ...groupMessage(ALICE, "WORLD_CHAT", text),
+      ...extra,
+    });
+
+  it("refuses public-room text the proxy didn't screen", async () => {
+    await assertFails(sendAt("unscreened", "hi"));
+  });
+
+  it("refuses text, rooms or senders other than the screened ones", async () => {
+    const id = await seedScreening(env, ALICE, "WORLD_CHAT", "hi");
+    await assertFails(sendAt(id, "something else"));
+    const elsewhere = await seedScreening(env, ALICE, "COUNTRY_Canada", "hi");
+    await assertFails(sendAt(elsewhere, "hi"));
+    const bobs = await seedScreening(env, BOB, "WORLD_CHAT", "hi");
+    await assertFails(sendAt(bobs, "hi"));
+    await assertSucceeds(sendAt(id, "hi"));
+  });
+
+  it("only publishes a held verdict through the moderator queue", async () => {
+    const id = await seedScreening(env, ALICE, "WORLD_CHAT", "see example.com", "hold");
+    await assertFails(sendAt(id, "see example.com"));
+
+    const { timestamp: _, ...message } = groupMessage(ALICE, "WORLD_CHAT", "see example.com");
+    const held: HeldMessageDoc = { message, roomType: RoomType.WORLD, reason: "Links", source: "rules", heldAt: Date.now() };
+    const allowed = await seedScreening(env, ALICE, "WORLD_CHAT", "see example.com");
+    await assertFails(sendCounted(dbFor(ALICE), ALICE.uid, EMPTY_LIMITS, "WORLD_CHAT", "x", doc(dbFor(ALICE), "heldMessages", allowed), held));
+    await assertSucceeds(sendCounted(dbFor(ALICE), ALICE.uid, EMPTY_LIMITS, "WORLD_CHAT", "x", doc(dbFor(ALICE), "heldMessages", id), held));
+  });
+
+  it("lets attachments through unscreened with their fallback text only", async () => {
+    await assertFails(sendAttachment(ALICE, "unscreened words", voiceNote(ALICE.uid)));
+    await assertSucceeds(sendAttachment(ALICE, "[Voice message]", voiceNote(ALICE.uid)));
+  });
+
+  it("keeps screenings away from clients", async () => {
+    const id = await seedScreening(env, ALICE, "WORLD_CHAT", "hi");
+    await assertFails(getDoc(doc(dbFor(ALICE), "screenings", id)));
+    await assertFails(setDoc(doc(dbFor(ALICE), "screenings", "mine"), { uid: ALICE.uid, roomId: "WORLD_CHAT", text: "hi", action: "allow" }));
+  });
+});
+
+describe("messages: own rooms only", () => {
+  it("allows posting to the profile's country and state rooms", async () => {
+    await assertSucceeds(sendAs(env, dbFor(ALICE), ALICE, "COUNTRY_Canada", "hi"));
+    await assertSucceeds(sendAs(env, dbFor(BOB), BOB, "STATE_Quebec_Canada", "hi"));
+  });
+
+  it("refuses posting to other countries and states", async () => {
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "COUNTRY_France", "hi"));
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "STATE_Quebec_Canada", "hi"));
+  });
+
+  it("only lets room members read a room", async () => {
+    await seedMessage("m1", CAROL, "COUNTRY_France");
+    const q = (user: TestUser, roomId: string) => getDocs(query(collection(dbFor(user), "messages"), where("roomId", "==", roomId)));
+
+    await assertSucceeds(q(CAROL, "COUNTRY_France"));
+    await assertFails(q(ALICE, "COUNTRY_France"));
+    await assertFails(getDoc(doc(dbFor(ALICE), "messages", "m1")));
+  });
+
+  it("refuses receipts and reactions from outside the room", async () => {
+    await seedMessage("m1", CAROL, "COUNTRY_France");
+    await assertFails(markRead(dbFor(ALICE), ["m1"], { uid: ALICE.uid, username: ALICE.username }));
+    await assertFails(setReaction(dbFor(ALICE), "m1", { uid: ALICE.uid, username: ALICE.username }, "❤️"));
+    await assertSucceeds(setReaction(dbFor(CAROL), "m1", { uid: CAROL.uid, username: CAROL.username }, "❤️"));
+  });
+
+  it("lets moderators read any room", async () => {
+    await seedModerator(env, ALICE.uid);
+    await seedMessage("m1", CAROL, "COUNTRY_France");
+    await assertSucceeds(getDoc(doc(dbFor(ALICE), "messages", "m1")));
+  });
+});
+
+describe("messages: immutable after sending", () => {
+  beforeEach(() => seedMessage("m1", BOB, "WORLD_CHAT"));
+
+  it("refuses edits to the text, sender or room", async () => {
+    const ref = doc(dbFor(BOB), "messages", "m1");
+    await assertFails(updateDoc(ref, { text: "edited" }));
+    await assertFails(updateDoc(ref, { senderUid: ALICE.uid }));
+    await assertFails(updateDoc(ref, { roomId: "COUNTRY_Canada" }));
+  });
+
+  it("lets a reader add only their own receipt", async () => {
+    await assertSucceeds(markRead(dbFor(ALICE), ["m1"], { uid: ALICE.uid, username: ALICE.username }));
+    await assertFails(markRead(dbFor(ALICE), ["m1"], { uid: CAROL.uid, username: CAROL.username }));
+  });
+
+  it("stops taking receipts once a message holds READ_RECEIPT_CAP of them", async () => {
+    const receipts = Object.fromEntries(
+      Array.from({ length: READ_RECEIPT_CAP }, (_, i) => [`reader${i}`, { username: `reader${i}`, at: Date.now() }])
+    );
+    await seedMessage("m2", BOB, "WORLD_CHAT", { readReceipts: receipts });
+    await assertFails(markRead(dbFor(ALICE), ["m2"], { uid: ALICE.uid, username: ALICE.username }));
+  });
+
+  it("refuses a receipt under someone else's name", async () => {
+    await assertFails(
+      updateDoc(doc(dbFor(ALICE), "messages", "m1"), { "readReceipts.alice": { username: CAROL.username, at: Date.now() } })
+    );
+  });
+
+  it("lets a user set only their own reaction", async () => {
+    const db = dbFor(ALICE);
+    await assertSucceeds(setReaction(db, "m1", { uid: ALICE.uid, username: ALICE.username }, "❤️"));
+    await assertFails(setReaction(db, "m1", { uid: BOB.uid, username: BOB.username }, "❤️"));
+    await assertSucceeds(setReaction(db, "m1", { uid: ALICE.uid, username: ALICE.username }, null));
+  });
+
+  it("refuses a reaction under someone else's name or in another shape", async () => {
+    const ref = doc(dbFor(ALICE), "messages", "m1");
+    await assertFails(setReaction(dbFor(ALICE), "m1", { uid: ALICE.uid, username: CAROL.username }, "❤️"));
+    await assertFails(updateDoc(ref, { "reactions.alice": { username: ALICE.username, emoji: "❤️", extra: "x".repeat(1000) } }));
+    await assertFails(updateDoc(ref, { "reactions.alice": { username: ALICE.username, emoji: "x".repeat(100) } }));
+    await assertFails(updateDoc(ref, { "reactions.alice": "❤️" }));
+  });
+
+  it("stops taking new reactors once a message holds REACTION_CAP of them", async () => {
+    const reactions = Object.fromEntries(
+      Array.from({ length: REACTION_CAP }, (_, i) => [`reader${i}`, { username: `reader${i}`, emoji: "👍" }])
+    );
+    await seedMessage("m2", BOB, "WORLD_CHAT", { reactions });
+    await assertFails(setReaction(dbFor(ALICE), "m2", { uid: ALICE.uid, username: ALICE.username }, "❤️"));
+  });
+
+  it("lets only the sender unsend", async () => {
+    await assertFails(unsendMessage(dbFor(ALICE), "m1"));
+    await assertSucceeds(unsendMessage(dbFor(BOB), "m1"));
+  });
+
+  it("refuses reactions on an unsent message", async () => {
+    await assertSucceeds(unsendMessage(dbFor(BOB), "m1"));
+    await assertFails(setReaction(dbFor(ALICE), "m1", { uid: ALICE.uid, username: ALICE.username }, "❤️"));
+  });
+});
+
+describe("sessions: participants only", () => {
+  beforeEach(() => seedSession("s1", [ALICE, BOB]));
+
+  const sessionMessage = (user: TestUser) => ({
+    text: "hey",
+    sender: user.username,
+    senderUid: user.uid,
+    mentions: [],
+  });
+
+  it("lets only the two users read the session and its messages", async () => {
+    await assertSucceeds(getDoc(doc(dbFor(ALICE), "sessions", "s1")));
+    await assertFails(getDoc(doc(dbFor(CAROL), "sessions", "s1")));
+    await assertSucceeds(getDocs(collection(dbFor(BOB), "sessions", "s1", "messages")));
+    await assertFails(getDocs(collection(dbFor(CAROL), "sessions", "s1", "messages")));
+  });
+
+  it("lets only the two users post", async () => {
+    await assertSucceeds(sendSessionMessage(dbFor(ALICE), "s1", EMPTY_LIMITS, sessionMessage(ALICE)));
+    await assertFails(sendSessionMessage(dbFor(CAROL), "s1", EMPTY_LIMITS, sessionMessage(CAROL)));
+  });
+
+  it("lets only the sender unsend a session message", async () => {
+    await seed(env, (db) =>
+      setDoc(doc(db, "sessions", "s1", "messages", "m1"), {
+        ...sessionMessage(ALICE),
+        readBy: [],
+        timestamp: Date.now(),
+      })
+    );
+    await assertFails(unsendMessage(dbFor(BOB), "m1", "s1"));
+    await assertSucceeds(unsendMessage(dbFor(ALICE), "m1", "s1"));
+  });
+
+  it("refuses posting once the session has ended", async () => {
+    await assertSucceeds(endSession(dbFor(BOB), "s1", BOB.uid));
+    await assertFails(sendSessionMessage(dbFor(ALICE), "s1", EMPTY_LIMITS, sessionMessage(ALICE)));
+  });
+
+  it("lets only a participant end it, and only as themselves", async () => {
+    await assertFails(endSession(dbFor(CAROL), "s1", CAROL.uid));
+    await assertFails(endSession(dbFor(ALICE), "s1", BOB.uid));
+    await assertSucceeds(endSession(dbFor(ALICE), "s1", ALICE.uid));
+  });
+
+  it("refuses creating a session that the matchmaker didn't pair", async () => {
+    await assertFails(
+      setDoc(doc(dbFor(CAROL), "sessions", "s2"), {
+        users: [CAROL.uid, ALICE.uid],
+        createdAt: Date.now(),
+        active: true,
+        userProfiles: {},
+      })
+    );
+  });
+});
+
+describe("reports", () => {
+  const report = (reporter: TestUser, extra: Partial<ReportDoc> = {}): Omit<ReportDoc, "id" | "createdAt" | "status"> => ({
+    reporterUid: reporter.uid,
+    reporterName: reporter.username,
+    targetUid: BOB.uid,
+    targetUsername: BOB.username,
+    messageId: "m1",
+    roomType: RoomType.WORLD,
+    roomId: "WORLD_CHAT",
+    sessionId: null,
+    reason: "spam",
+    details: "",
+    contextIds: ["m0", "m1"],
+    ...extra,
+  });
+
+  beforeEach(() => seedMessage("m1", BOB, "WORLD_CHAT"));
+
+  it("accepts a report that carries message ids as context", async () => {
+    await assertSucceeds(submitReport(dbFor(ALICE), report(ALICE)));
+  });
+
+  it("refuses copied message text, oversized context or someone else's name", async () => {
+    const db = dbFor(ALICE);
+    await assertFails(
+      addDoc(collection(db, "reports"), {
+        ...report(ALICE),
+        context: [{ id: "m1", sender: "bob", text: "words bob never wrote", timestamp: 0 }],
+        createdAt: Date.now(),
+        status: "open",
+      })
+    );
+    await assertFails(submitReport(db, report(ALICE, { contextIds: Array.from({ length: 12 }, (_, i) => `m${i}`) })));
+    await assertFails(submitReport(db, report(ALICE, { contextIds: [{ id: "m1" }] as unknown as string[] })));
+    await assertFails(submitReport(db, report(CAROL)));
+  });
+
+  it("refuses a target other than the reported message's sender", async () => {
+    const db = dbFor(ALICE);
+    await assertFails(submitReport(db, report(ALICE, { targetUid: CAROL.uid, targetUsername: CAROL.username })));
+    await assertFails(submitReport(db, report(ALICE, { messageId: "missing" })));
+    await assertFails(submitReport(db, report(ALICE, { roomType: RoomType.COUNTRY, roomId: "COUNTRY_Canada" })));
+  });
+
+  it("only flags a session together with the caller's report on it", async () => {
+    await seedSession("s1", [ALICE, BOB]);
+    const session = doc(dbFor(ALICE), "sessions", "s1");
+    await assertFails(updateDoc(session, { reported: true }));
+    await seed(env, (db) => setDoc(doc(db, "reports", "r1"), { ...report(BOB), sessionId: "s1", createdAt: 0, status: "open" }));
+    await assertFails(updateDoc(session, { reported: true, lastReportId: "r1" }));
+    await assertFails(submitReport(dbFor(CAROL), report(CAROL, { roomType: RoomType.ONE_ON_ONE, roomId: "s1", sessionId: "s1", messageId: null })));
+    await assertSucceeds(submitReport(dbFor(ALICE), report(ALICE, { roomType: RoomType.ONE_ON_ONE, roomId: "s1", sessionId: "s1", messageId: null })));
+  });
+
+  it("lets moderators read a one-on-one chat only once it has been reported", async () => {
+    await seedModerator(env, CAROL.uid);
+    await seedSession("s1", [ALICE, BOB]);
+    await seed(env, (db) =>
+      setDoc(doc(db, "sessions", "s1", "messages", "m1"), {
+        text: "hey",
+        sender: BOB.username,
+        senderUid: BOB.uid,
+        readBy: [],
+        mentions: [],
+        timestamp: Date.now(),
+      })
+    );
+    const filed = report(ALICE, { roomType: RoomType.ONE_ON_ONE, roomId: "s1", sessionId: "s1", contextIds: ["m1"] });
+
+    await assertFails(getDoc(doc(dbFor(CAROL), "sessions", "s1", "messages", "m1")));
+    await assertSucceeds(submitReport(dbFor(ALICE), filed));
+    const context = await loadReportContext(dbFor(CAROL), { ...filed, createdAt: Date.now(), status: "open" });
+    expect(context.map((m) => m.text)).toEqual(["hey"]);
+  });
+});
+
+describe("send limits", () => {
+  it("refuses a message without its counter update", async () => {
+    await assertFails(addDoc(collection(dbFor(ALICE), "messages"), groupMessage(ALICE, "WORLD_CHAT", "hi")));
+  });
+
+  it("refuses a second message within a second", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 200, count: 1, lastAgo: 200, lastText: "one", lastRoom: "WORLD_CHAT" });
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "two", {}, limitsView(200, 1)));
+  });
+
+  it("refuses repeating the same text within 30 seconds", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 5000, count: 1, lastAgo: 5000, lastText: "same", lastRoom: "WORLD_CHAT" });
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "same", {}, limitsView(5000, 1)));
+    await assertSucceeds(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "different", {}, limitsView(5000, 1)));
+  });
+
+  it("refuses the 21st message in a minute", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 10000, count: 20, lastAgo: 5000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "y", {}, limitsView(10000, 20)));
+  });
+
+  it("starts a new window once the minute is over", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 61000, count: 20, lastAgo: 5000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    await assertSucceeds(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "y", {}, limitsView(61000, 20)));
+  });
+
+  it("still sends when the client clock runs ahead of the server's window", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 10000, count: 5, lastAgo: 5000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    // The client thinks the window is over; the server doesn't, so the retry counts it in
+    await assertSucceeds(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "y", {}, limitsView(61000, 5)));
+    const limits = await getDoc(doc(dbFor(ALICE), "sendLimits", ALICE.uid));
+    expect(limits.data()?.count).toBe(6);
+  });
+
+  it("refuses resetting the counter mid-window", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 10000, count: 20, lastAgo: 5000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    // A client claiming a fresh window while the old one is still running; the
+    // retry as an increment is the 21st message
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "y", {}, limitsView(61000, 0)));
+  });
+
+  it("enforces slow mode except for moderators", async () => {
+    await seed(env, (db) => setDoc(doc(db, "roomSettings", "WORLD_CHAT"), { slowModeSec: 60, setBy: "mod", at: 0 }));
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 10000, count: 1, lastAgo: 10000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    await seedLimits(env, BOB.uid, { windowStartAgo: 10000, count: 1, lastAgo: 10000, lastText: "x", lastRoom: "WORLD_CHAT" });
+    await seedModerator(env, BOB.uid);
+
+    await assertFails(sendAs(env, dbFor(ALICE), ALICE, "WORLD_CHAT", "y", {}, limitsView(10000, 1)));
+    await assertSucceeds(sendAs(env, dbFor(BOB), BOB, "WORLD_CHAT", "y", {}, limitsView(10000, 1)));
+  });
+
+  it("refuses two messages against one counter update", async () => {
+    const db = dbFor(ALICE);
+    const first = await seedScreening(env, ALICE, "WORLD_CHAT", "hi");
+    const second = await seedScreening(env, ALICE, "WORLD_CHAT", "hi");
+    const batch = writeBatch(db);
+    batch.set(doc(db, "messages", first), groupMessage(ALICE, "WORLD_CHAT", "hi"));
+    batch.set(doc(db, "messages", second), groupMessage(ALICE, "WORLD_CHAT", "hi"));
+    batch.set(doc(db, "sendLimits", ALICE.uid), {
+      windowStart: serverTimestamp(),
+      count: 1,
+      lastAt: serverTimestamp(),
+      lastText: "hi",
+      lastRoom: "WORLD_CHAT",
+      lastMessageId: first,
+      rooms: { WORLD_CHAT: serverTimestamp() },
+    });
+    await assertFails(batch.commit());
+  });
+
+  it("keeps the counters private", async () => {
+    await seedLimits(env, ALICE.uid, { windowStartAgo: 0, count: 1, lastAgo: 0, lastText: "x", lastRoom: "WORLD_CHAT" });
+    await assertSucceeds(getDoc(doc(dbFor(ALICE), "sendLimits", ALICE.uid)));
+    await assertFails(getDoc(doc(dbFor(BOB), "sendLimits", ALICE.uid)));
+  });
+});
+
+describe("held messages", () => {
+  const seedHeld = async (id: string) => {
+    const { timestamp: _, ...message } = groupMessage(ALICE, "WORLD_CHAT", "see example.com");
+    const held: HeldMessageDoc = { message, roomType: RoomType.WORLD, reason: "Links", source: "rules", heldAt: Date.now() };
+    await seed(env, (db) => setDoc(doc(db, "heldMessages", id), held));
+    return { ...held, id };
+  };
+
+  beforeEach(() => seedModerator(env, CAROL.uid));
+
+  it("lets a moderator publish a held message unchanged under its id", async () => {
+    const held = await seedHeld("h1");
+    await assertSucceeds(approveHeldMessage(dbFor(CAROL), held));
+    const published = await getDoc(doc(dbFor(ALICE), "messages", "h1"));
+    expect(published.data()?.text).toBe("see example.com");
+  });
+
+  it("refuses a moderator altering it, keeping it queued or posting without one", async () => {
+    const held = await seedHeld("h1");
+    await assertFails(approveHeldMessage(dbFor(CAROL), { ...held, message: { ...held.message, text: "something else" } }));
+    await assertFails(approveHeldMessage(dbFor(CAROL), { ...held, message: { ...held.message, senderUid: BOB.uid } }));
+    await assertFails(setDoc(doc(dbFor(CAROL), "messages", "h1"), { ...held.message, timestamp: Date.now() }));
+    await assertFails(approveHeldMessage(dbFor(CAROL), { ...held, id: "h2" }));
+  });
+
+  it("refuses approval by anyone else", async () => {
+    const held = await seedHeld("h1");
+    await assertFails(approveHeldMessage(dbFor(ALICE), held));
+  });
+});
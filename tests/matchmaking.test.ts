@@ -0,0 +1,199 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { RulesTestEnvironment, assertFails, assertSucceeds } from "@firebase/rules-unit-testing";
+import { collection, deleteDoc, doc, getDoc, getDocs, setDoc } from "firebase/firestore";
+import { QUEUE_STALE_MS, cancelSearch, findPartner, joinQueue } from "../services/matchmaking";
+import { MatchPreference, MatchQueueDoc, SessionDoc } from "../types";
+import { TestUser, createTestEnv, firestoreOf, seed, seedProfile } from "./emulator";
+
+// Pairing races against the real emulator: several clients search at once
+// and every transaction competes for the same waiting users.
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnv();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+const user = (n: number): TestUser => ({ uid: `user${n}`, username: `user${n}`, country: "Canada", state: "Ontario" });
+const dbFor = (u: TestUser) => firestoreOf(env.authenticatedContext(u.uid));
+
+const enqueue = async (u: TestUser) => {
+  await seedProfile(env, u);
+  return joinQueue(dbFor(u), u.uid, u, MatchPreference.ANYWHERE);
+};
+
+/** All sessions and queue entries, read with rules off. */
+const snapshot = async () => {
+  let sessions: (SessionDoc & { id: string })[] = [];
+  let queue: MatchQueueDoc[] = [];
+  await seed(env, async (db) => {
+    sessions = (await getDocs(collection(db, "sessions"))).docs.map((d) => ({ id: d.id, ...(d.data() as SessionDoc) }));
+    queue = (await getDocs(collection(db, "matchQueue"))).docs.map((d) => d.data() as MatchQueueDoc);
+  });
+  return { sessions, queue };
+};
+
+const expectConsistentPairs = async () => {
+  const { sessions, queue } = await snapshot();
+  const paired = sessions.flatMap((s) => s.users);
+  // Nobody is in two sessions, and nobody is paired with themselves
+  expect(new Set(paired).size).toBe(paired.length);
+  sessions.forEach((s) => expect(s.users[0]).not.toBe(s.users[1]));
+  // Every queue entry points at the session that contains it
+  queue
+    .filter((e) => e.sessionId)
+    .forEach((e) => expect(sessions.find((s) => s.id === e.sessionId)?.users).toContain(e.userId));
+  return sessions;
+};
+
+describe("findPartner", () => {
+  it("pairs two waiting users", async () => {
+    const a = user(1);
+    const b = user(2);
+    await enqueue(a);
+    const entry = await enqueue(b);
+
+    const sessionId = await findPartner(dbFor(b), entry);
+    expect(sessionId).toBeTruthy();
+    const sessions = await expectConsistentPairs();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].users.sort()).toEqual([a.uid, b.uid]);
+  });
+
+  it("gives a contested partner to exactly one searcher", async () => {
+    const waiting = user(0);
+    await enqueue(waiting);
+    const searchers = [1, 2, 3, 4].map(user);
+    const entries = await Promise.all(searchers.map(enqueue));
+
+    const results = await Promise.all(entries.map((e, i) => findPartner(dbFor(searchers[i]), e)));
+
+    const sessions = await expectConsistentPairs();
+    expect(sessions.filter((s) => s.users.includes(waiting.uid))).toHaveLength(1);
+    // Every session a searcher reported exists
+    results.filter(Boolean).forEach((id) => expect(sessions.some((s) => s.id === id)).toBe(true));
+  });
+
+  it("leaves nobody who could be paired unpaired after a burst", async () => {
+    const users = Array.from({ length: 6 }, (_, i) => user(i));
+    const entries = await Promise.all(users.map(enqueue));
+
+    await Promise.all(entries.map((e, i) => findPartner(dbFor(users[i]), e)));
+    // Whoever lost every race searches once more, as the widening timer would
+    const { queue } = await snapshot();
+    for (const e of queue.filter((q) => !q.sessionId)) await findPartner(dbFor(users.find((u) => u.uid === e.userId)!), e);
+
+    const sessions = await expectConsistentPairs();
+    expect(sessions).toHaveLength(3);
+  });
+
+  it("never pairs users who blocked each other, from either side", async () => {
+    const a = user(1);
+    const b = user(2);
+    await seed(env, (db) => setDoc(doc(db, "userPrefs", a.uid), { blocked: { [b.uid]: { username: b.username, at: 0 } } }));
+    await enqueue(a);
+    const entry = await enqueue(b);
+
+    // b can't see a's block list, so the rules turn the pairing down
+    expect(await findPartner(dbFor(b), entry)).toBeNull();
+    // a skips b from their own list
+    const { queue } = await snapshot();
+    const mine = queue.find((e) => e.userId === a.uid)!;
+    expect(await findPartner(dbFor(a), mine, [b.uid])).toBeNull();
+
+    const { sessions } = await snapshot();
+    expect(sessions).toEqual([]);
+  });
+
+  it("skips and clears entries left by closed tabs", async () => {
+    const ghosts = Array.from({ length: 12 }, (_, i) => user(100 + i));
+    for (const ghost of ghosts) {
+      const entry = await enqueue(ghost);
+      await seed(env, (db) =>
+        setDoc(doc(db, "matchQueue", ghost.uid), { ...entry, lastSeen: Date.now() - QUEUE_STALE_MS * 2 })
+      );
+    }
+    const live = user(1);
+    await enqueue(live);
+    const me = user(2);
+    const entry = await enqueue(me);
+
+    const sessionId = await findPartner(dbFor(me), entry);
+    expect(sessionId).toBeTruthy();
+
+    const { sessions, queue } = await snapshot();
+    expect(sessions[0].users.sort()).toEqual([live.uid, me.uid]);
+    expect(queue.some((e) => ghosts.some((g) => g.uid === e.userId))).toBe(false);
+  });
+});
+
+describe("cancelSearch", () => {
+  it("leaves the queue", async () => {
+    const a = user(1);
+    await enqueue(a);
+    await cancelSearch(dbFor(a), a.uid);
+    const { queue } = await snapshot();
+    expect(queue).toEqual([]);
+  });
+
+  it("ends a session someone paired us into just before cancelling", async () => {
+    const a = user(1);
+    const b = user(2);
+    await enqueue(a);
+    const entry = await enqueue(b);
+    const sessionId = await findPartner(dbFor(b), entry);
+
+    await cancelSearch(dbFor(a), a.uid);
+    const { sessions, queue } = await snapshot();
+    expect(sessions.find((s) => s.id === sessionId)).toMatchObject({ active: false, endedBy: a.uid });
+    expect(queue.map((e) => e.userId)).toEqual([b.uid]);
+  });
+});
+
+describe("matchQueue rules", () => {
+  it("lets others clear a stale entry but not a live one", async () => {
+    const a = user(1);
+    const b = user(2);
+    await seedProfile(env, b);
+    const entry = await enqueue(a);
+
+    await assertFails(deleteDoc(doc(dbFor(b), "matchQueue", a.uid)));
+    await seed(env, (db) => setDoc(doc(db, "matchQueue", a.uid), { ...entry, lastSeen: Date.now() - QUEUE_STALE_MS * 2 }));
+    await assertSucceeds(deleteDoc(doc(dbFor(b), "matchQueue", a.uid)));
+  });
+
+  it("refuses queueing under someone else's name", async () => {
+    const a = user(1);
+    await seedProfile(env, a);
+    await assertFails(joinQueue(dbFor(a), a.uid, { ...a, username: "someone" }, MatchPreference.ANYWHERE));
+    await assertFails(joinQueue(dbFor(a), "user2", a, MatchPreference.ANYWHERE));
+  });
+
+  it("keeps block lists out of the public queue entry", async () => {
+    const a = user(1);
+    const entry = await enqueue(a);
+    await assertFails(setDoc(doc(dbFor(a), "matchQueue", a.uid), { ...entry, blocked: ["user2"] }));
+  });
+
+  it("keeps a paired entry's session fixed", async () => {
+    const a = user(1);
+    const b = user(2);
+    await enqueue(a);
+    const entry = await enqueue(b);
+    const sessionId = await findPartner(dbFor(b), entry);
+
+    const c = user(3);
+    await seedProfile(env, c);
+    await assertFails(setDoc(doc(dbFor(c), "matchQueue", a.uid), { sessionId: "other" }, { merge: true }));
+    const after = await getDoc(doc(dbFor(a), "matchQueue", a.uid));
+    expect(after.data()?.sessionId).toBe(sessionId);
+  });
+});
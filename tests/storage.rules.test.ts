@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { RulesTestEnvironment, assertFails, assertSucceeds } from "@firebase/rules-unit-testing";
+import { getBytes, ref } from "firebase/storage";
+import { createFirebaseStorage } from "../services/storage";
+import { createTestEnv, storageOf } from "./emulator";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnv();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearStorage();
+});
+
+// Uploads go through the same backend the app uses
+const storageFor = (uid: string) => createFirebaseStorage(storageOf(env.authenticatedContext(uid)));
+
+const blob = (bytes: number, type: string) => new Blob([new Uint8Array(bytes)], { type });
+
+describe("image attachments", () => {
+  it("accepts a JPEG in the uploader's own folder", async () => {
+    await assertSucceeds(storageFor("alice").upload("attachments/alice/a.jpg", blob(1024, "image/jpeg")));
+  });
+
+  it("refuses another user's folder", async () => {
+    await assertFails(storageFor("alice").upload("attachments/bob/a.jpg", blob(1024, "image/jpeg")));
+  });
+
+  it("refuses anything the resizer wouldn't produce", async () => {
+    await assertFails(storageFor("alice").upload("attachments/alice/a.png", blob(1024, "image/png")));
+    await assertFails(storageFor("alice").upload("attachments/alice/a.jpg", blob(5 * 1024 * 1024, "image/jpeg")));
+  });
+
+  it("refuses uploads outside attachments/", async () => {
+    await assertFails(storageFor("alice").upload("avatars/alice.jpg", blob(1024, "image/jpeg")));
+  });
+});
+
+describe("voice notes", () => {
+  it("accepts a recording up to 60 seconds", async () => {
+    await assertSucceeds(
+      storageFor("alice").upload("attachments/alice/v.webm", blob(200 * 1024, "audio/webm"), { durationMs: "60000" })
+    );
+  });
+
+  it("refuses longer, larger or unlabelled recordings", async () => {
+    const storage = storageFor("alice");
+    await assertFails(storage.upload("attachments/alice/v.webm", blob(1024, "audio/webm"), { durationMs: "60001" }));
+    await assertFails(storage.upload("attachments/alice/v.webm", blob(400 * 1024, "audio/webm"), { durationMs: "1000" }));
+    await assertFails(storage.upload("attachments/alice/v.webm", blob(1024, "audio/webm")));
+    await assertFails(storage.upload("attachments/alice/v.wav", blob(1024, "audio/wav"), { durationMs: "1000" }));
+  });
+});
+
+describe("reading and removing", () => {
+  beforeEach(() => storageFor("alice").upload("attachments/alice/a.jpg", blob(1024, "image/jpeg")));
+
+  it("lets signed-in users read attachments", async () => {
+    await assertSucceeds(getBytes(ref(storageOf(env.authenticatedContext("bob")), "attachments/alice/a.jpg")));
+    await assertFails(getBytes(ref(storageOf(env.unauthenticatedContext()), "attachments/alice/a.jpg")));
+  });
+
+  it("lets only the uploader remove them", async () => {
+    await assertFails(storageFor("bob").remove("attachments/alice/a.jpg"));
+    await assertSucceeds(storageFor("alice").remove("attachments/alice/a.jpg"));
+  });
+});
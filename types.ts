@@ -3,8 +3,38 @@ export interface UserProfile {
   username: string;
   country: string;
   state: string;
+  preferredLanguage?: string; // ISO 639-1, target for translations
 }
 
+export interface ReadReceipt {
+  username: string;
+  at: number;
+}
+
+export interface Reaction {
+  username: string;
+  emoji: string;
+}
+
+export interface ImageAttachment {
+  kind: 'image';
+  url: string;
+  thumbUrl: string;
+  path: string; // Storage path of the full image; the thumbnail sits alongside
+  width: number;
+  height: number;
+}
+
+export interface AudioAttachment {
+  kind: 'audio';
+  url: string;
+  path: string;
+  durationMs: number;
+  waveform: number[]; // Peak levels 0..1, one per bar
+}
+
+export type Attachment = ImageAttachment | AudioAttachment;
+
 export interface Message {
   id: string;
   sender: string;
@@ -17,8 +47,17 @@ export interface Message {
     text: string;
   };
   readBy: string[];
+  readReceipts?: Record<string, ReadReceipt>; // Keyed by reader uid
+  senderUid?: string;
   translation?: string;
+  translationStatus?: 'loading' | 'failed'; // Cleared once `translation` is set
   roomId?: string; // Firestore grouping
+  system?: boolean; // Local notice, e.g. "Stranger disconnected"
+  unsent?: boolean; // Tombstone left by the sender; text is cleared
+  attachment?: Attachment; // Shown instead of `text`, which holds a fallback like "[Image]"
+  reactions?: Record<string, Reaction>; // Keyed by reactor uid; one emoji per user
+  mentions?: string[]; // Uids resolved from @username at send time
+  moderated?: boolean; // Removed by a moderator; also `unsent`
 }
 
 export enum RoomType {
@@ -28,20 +67,45 @@ export enum RoomType {
   ONE_ON_ONE = 'ONE_ON_ONE'
 }
 
+export enum MatchPreference {
+  ANYWHERE = 'ANYWHERE',
+  COUNTRY = 'COUNTRY',
+  STATE = 'STATE'
+}
+
 export interface ChatRoom {
   id: RoomType;
   name: string;
   description: string;
   messages: Message[];
   unreadCount: number;
+  mentionCount: number; // Unread messages that @mention me; shown even when muted
   muted: boolean;
+  hasMoreHistory?: boolean; // Older messages exist beyond what's loaded
   // Specific for One-on-One
   connectedPartner?: UserProfile | null;
   isSearching?: boolean;
+  searchWidened?: boolean;
   sessionId?: string | null;
 }
 
 // Firestore Document Interfaces
+// users/{uid}; what the security rules trust about a user
+export interface UserDoc {
+  username: string;
+  country: string;
+  state: string;
+  preferredLanguage?: string;
+  updatedAt: number;
+}
+
+// usernames/{lowercased username}; reserves the name for one uid
+export interface UsernameDoc {
+  uid: string;
+  username: string; // As the owner typed it
+  claimedAt: number;
+}
+
 export interface OnlineUserDoc {
   userId: string;
   username: string;
@@ -56,6 +120,9 @@ export interface MatchQueueDoc {
   country: string;
   state: string;
   timestamp: number;
+  lastSeen: number; // Heartbeat while waiting; stale entries are never paired
+  preference: MatchPreference; // Current scope; widens the longer we wait
+  sessionId: string | null; // Set by whichever client pairs this entry
 }
 
 export interface SessionDoc {
@@ -63,4 +130,84 @@ export interface SessionDoc {
   createdAt: number;
   active: boolean;
   userProfiles: Record<string, UserProfile>;
-}
\ No newline at end of file
+  endedBy?: string; // uid of the user who skipped or left
+  reported?: boolean; // Set with a report; lets moderators read its messages
+  lastReportId?: string; // The report that set `reported`, checked by the rules
+}
+
+export interface BlockedUser {
+  username: string; // As of blocking; only used to list them
+  at: number;
+}
+
+export interface UserPrefsDoc {
+  hiddenMessages: string[]; // "Delete for you"
+  autoTranslateRooms: RoomType[];
+  mutedRooms: Partial<Record<RoomType, number | null>>; // Muted until, null = until unmuted
+  blocked: Record<string, BlockedUser>; // Keyed by uid
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'sexual' | 'violence' | 'other';
+
+export interface ReportContextMessage {
+  id: string;
+  sender: string;
+  senderUid?: string;
+  text: string;
+  timestamp: number;
+}
+
+export interface ReportDoc {
+  id?: string; // Firestore doc id, filled in when read
+  reporterUid: string;
+  reporterName: string;
+  targetUid: string;
+  targetUsername: string;
+  messageId: string | null; // null when reporting the user as a whole
+  roomType: RoomType;
+  roomId: string; // Group room id, or the session id for one-on-one
+  sessionId: string | null;
+  reason: ReportReason;
+  details: string;
+  contextIds: string[]; // Messages around the reported one, oldest first; moderators load them
+  createdAt: number;
+  status: 'open' | 'dismissed' | 'actioned';
+  resolvedBy?: string;
+  resolvedAt?: number;
+}
+
+export interface SuspensionDoc {
+  until: number;
+  reason: string;
+  by: string; // Moderator uid
+  at: number;
+}
+
+// Group message fields as written to `messages`, minus the timestamp
+export interface GroupMessageData {
+  text: string;
+  sender: string;
+  senderUid: string;
+  roomId: string;
+  readBy: string[];
+  tokens: string[];
+  mentions: string[];
+  replyTo?: Message['replyTo'];
+  attachment?: Attachment;
+}
+
+// A public-room message stopped by automated moderation, awaiting review
+export interface HeldMessageDoc {
+  id?: string; // Firestore doc id, filled in when read
+  message: GroupMessageData;
+  roomType: RoomType;
+  reason: string;
+  source: string; // Moderation stage that held it
+  heldAt: number;
+}
+
+export interface RoomSettingsDoc {
+  slowModeSec: number; // 0 = off
+  setBy: string; // Moderator uid
+  at: number;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules suites. They talk to the Firestore and Storage emulators, so
+// run them through `npm run test:emulator`, which starts both.
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // One emulator is shared, and every suite clears it between tests
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 30000,
+  },
+});